@@ -1,5 +1,23 @@
 import type { Command, CommandGenerator, CommandOptions } from '../types';
 import { APIZHProvider } from '../providers/base';
+import { formatContextWindow } from '../providers/modelRegistry';
+
+const COST_ICONS = { low: '💰', medium: '💰💰', high: '💰💰💰', premium: '💰💰💰💰' };
+const SPEED_ICONS = { fast: '⚡', medium: '🚀', slow: '🐌' };
+
+type ModelInfo = NonNullable<ReturnType<typeof APIZHProvider.getModelInfo>>;
+
+// Cost and speed icons followed by what the model is best for, or its context window for
+// registry models without guidance
+function formatModelSummary(info: ModelInfo): string {
+  const icons = [info.cost && COST_ICONS[info.cost], info.speed && SPEED_ICONS[info.speed]]
+    .filter(Boolean)
+    .join(' ');
+  const summary = info.bestFor.length
+    ? info.bestFor.join(', ')
+    : `${formatContextWindow(info.contextWindow)} context`;
+  return icons ? `${icons} - ${summary}` : summary;
+}
 
 export class ApizhModelsCommand implements Command {
   async *execute(query: string, options?: CommandOptions): CommandGenerator {
@@ -94,11 +112,7 @@ vibe-tools apizh-models categories
       models.forEach((model) => {
         const info = APIZHProvider.getModelInfo(model);
         if (info) {
-          const costIcon = { low: '💰', medium: '💰💰', high: '💰💰💰', premium: '💰💰💰💰' }[
-            info.cost
-          ];
-          const speedIcon = { fast: '⚡', medium: '🚀', slow: '🐌' }[info.speed];
-          output += `• **${model}** ${costIcon} ${speedIcon} - ${info.bestFor.join(', ')}\n`;
+          output += `• **${model}** ${formatModelSummary(info)}\n`;
         } else {
           output += `• **${model}**\n`;
         }
@@ -129,28 +143,27 @@ ${Object.keys(APIZHProvider.getModelsByCategory())
 使用 \`vibe-tools apizh-models categories\` 查看所有模型。`;
     }
 
-    const costIcon = { low: '💰', medium: '💰💰', high: '💰💰💰', premium: '💰💰💰💰' }[info.cost];
-    const speedIcon = { fast: '⚡', medium: '🚀', slow: '🐌' }[info.speed];
-    const qualityIcon = { good: '⭐⭐⭐', excellent: '⭐⭐⭐⭐', premium: '⭐⭐⭐⭐⭐' }[
-      info.quality
-    ];
+    const costIcon = info.cost ? COST_ICONS[info.cost] : '';
+    const speedIcon = info.speed ? SPEED_ICONS[info.speed] : '';
+    const qualityIcon = info.quality
+      ? { good: '⭐⭐⭐', excellent: '⭐⭐⭐⭐', premium: '⭐⭐⭐⭐⭐' }[info.quality]
+      : '';
 
     return `
 # 📊 ${info.name} 详细信息
 
 ## 基本信息
 • **模型系列**: ${info.family}
-• **成本**: ${info.cost} ${costIcon}
-• **速度**: ${info.speed} ${speedIcon}  
-• **质量**: ${info.quality} ${qualityIcon}
-• **上下文长度**: ${info.contextLength || '未知'}
-• **中文友好**: ${info.chineseFriendly ? '✅' : '❌'}
+• **成本**: ${info.cost ?? '未知'} ${costIcon}
+• **速度**: ${info.speed ?? '未知'} ${speedIcon}  
+• **质量**: ${info.quality ?? '未知'} ${qualityIcon}
+• **上下文长度**: ${formatContextWindow(info.contextWindow)}
 
 ## 核心能力
 ${info.capabilities.map((cap) => `• ${cap}`).join('\n')}
 
 ## 最适合的任务
-${info.bestFor.map((task) => `🎯 ${task}`).join('\n')}
+${info.bestFor.length ? info.bestFor.map((task) => `🎯 ${task}`).join('\n') : '未知'}
 
 ## 使用建议
 \`\`\`bash
@@ -174,11 +187,7 @@ ${
 
     output += `## 🏆 推荐模型: ${recommendations.primary}\n`;
     if (primaryInfo) {
-      const costIcon = { low: '💰', medium: '💰💰', high: '💰💰💰', premium: '💰💰💰💰' }[
-        primaryInfo.cost
-      ];
-      const speedIcon = { fast: '⚡', medium: '🚀', slow: '🐌' }[primaryInfo.speed];
-      output += `**${primaryInfo.family}系列** ${costIcon} ${speedIcon} - ${primaryInfo.bestFor.join(', ')}\n\n`;
+      output += `**${primaryInfo.family}系列** ${formatModelSummary(primaryInfo)}\n\n`;
     }
 
     output += `**推荐理由**: ${recommendations.reason}\n\n`;
@@ -187,11 +196,7 @@ ${
     recommendations.alternatives.forEach((alt: string) => {
       const altInfo = APIZHProvider.getModelInfo(alt);
       if (altInfo) {
-        const costIcon = { low: '💰', medium: '💰💰', high: '💰💰💰', premium: '💰💰💰💰' }[
-          altInfo.cost
-        ];
-        const speedIcon = { fast: '⚡', medium: '🚀', slow: '🐌' }[altInfo.speed];
-        output += `• **${alt}** ${costIcon} ${speedIcon} - ${altInfo.bestFor.join(', ')}\n`;
+        output += `• **${alt}** ${formatModelSummary(altInfo)}\n`;
       } else {
         output += `• **${alt}**\n`;
       }
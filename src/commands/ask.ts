@@ -1,10 +1,23 @@
 import type { Command, CommandGenerator, CommandOptions, Provider } from '../types';
 import { loadEnv, loadConfig, defaultMaxTokens } from '../config';
-import { createProvider } from '../providers/base';
-import { ProviderError, ModelNotFoundError } from '../errors';
-import { getAllProviders } from '../utils/providerAvailability';
+import { createProvider, executePromptStreaming } from '../providers/base';
+import { FileError, ProviderError, ModelNotFoundError } from '../errors';
+import { getAllProviders, getOllamaHost } from '../utils/providerAvailability';
+import { getCustomProvider } from '../providers/customProviders';
+import {
+  checkModelCapabilities,
+  getDefaultModel,
+  getModelCapabilities,
+} from '../providers/modelRegistry';
 import type { ModelOptions } from '../providers/base';
 import { fetchDocContent } from '../utils/fetch-doc.ts';
+import { jsonSchemaToZod } from '../utils/jsonSchemaToZod';
+import { formatSessionHistory, openSession, recordSessionExchange } from '../utils/sessions';
+import { loadFileAttachments, loadImageAttachments } from '../utils/attachments';
+import { formatContextBudget, formatDryRun, getContextBudget } from '../utils/contextBudget';
+import { formatModelSpec, parseConsensusModels, runConsensus } from '../utils/consensus';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
 
 export class AskCommand implements Command {
   private config;
@@ -15,11 +28,40 @@ export class AskCommand implements Command {
   }
 
   async *execute(query: string, options?: CommandOptions): CommandGenerator {
-    // Get available providers
-    const availableProviders = getAllProviders().filter((p) => p.available);
+    const consensus = parseConsensusModels(options);
+    if (consensus) {
+      if (options?.schema) {
+        throw new ProviderError('--schema cannot be combined with --models');
+      }
+      // The judge goes through the same provider and model checks as --provider and --model
+      options = {
+        debug: false,
+        ...options,
+        provider: consensus.judge.provider,
+        model: consensus.judge.model,
+      };
+    }
+
+    // Follow-ups in a session keep using the session's provider and model unless overridden
+    const session = openSession('ask', options);
+    if (session) {
+      options = {
+        debug: false,
+        ...options,
+        provider: options?.provider ?? session.provider,
+        model: options?.model ?? session.model,
+      };
+    }
 
-    // If no providers are available, throw an error
-    if (availableProviders.length === 0) {
+    // Only built for error messages, listing every provider probes the local Ollama daemon
+    const listAvailableProviders = () =>
+      getAllProviders()
+        .filter((p) => p.available)
+        .map((p) => `- ${p.provider}`)
+        .join('\n');
+
+    // Stops at the first available provider, so Ollama is only probed when no other one is set up
+    if (!getAllProviders().some((p) => p.available)) {
       throw new ProviderError(
         "No AI providers are currently available. Please run 'vibe-tools install' to set up your API keys."
       );
@@ -32,16 +74,16 @@ export class AskCommand implements Command {
     const providerInfo = getAllProviders().find((p) => p.provider === providerName);
     if (!providerInfo) {
       throw new ProviderError(
-        `Invalid provider: ${providerName}.\n` +
-          'Available providers:\n' +
-          availableProviders.map((p) => `- ${p.provider}`).join('\n')
+        `Invalid provider: ${providerName}.\n` + 'Available providers:\n' + listAvailableProviders()
       );
     }
     if (!providerInfo.available) {
       throw new ProviderError(
-        `The ${providerName} provider is not available. Please set ${providerName.toUpperCase()}_API_KEY in your environment.\n` +
+        (providerName === 'ollama'
+          ? `The ollama provider is not available. Please make sure the Ollama daemon is running at ${getOllamaHost()} or set OLLAMA_HOST.\n`
+          : `The ${providerName} provider is not available. Please set ${getCustomProvider(providerName)?.apiKeyEnv ?? `${providerName.toUpperCase()}_API_KEY`} in your environment.\n`) +
           'Currently available providers:\n' +
-          availableProviders.map((p) => `- ${p.provider}`).join('\n')
+          listAvailableProviders()
       );
     }
 
@@ -61,19 +103,7 @@ export class AskCommand implements Command {
         model = (await (tempProvider as any).getModel(tempOptions)) || 'gpt-4o-mini';
       } else if (providerName.startsWith('apizh-')) {
         // For specialized APIZH variants, use the pre-configured model
-        const apizhModels: Record<string, string> = {
-          'apizh-coding': 'o3',
-          'apizh-chinese': 'qwen3-235b-a22b',
-          'apizh-analysis': 'claude-sonnet-4-20250514',
-          'apizh-creative': 'claude-opus-4-20250514',
-          'apizh-math': 'o1',
-          'apizh-web': 'gemini-2.5-pro-exp-03-25',
-          'apizh-reasoning': 'o1-mini',
-          'apizh-cost': 'gpt-4o-mini',
-          'apizh-nix': 'gpt-4.1-2025-04-14',
-        };
-
-        model = apizhModels[providerName] || 'gpt-4o-mini';
+        model = getDefaultModel(providerName) || 'gpt-4o-mini';
 
         // Show which specialized configuration is being used
         const taskNames: Record<string, string> = {
@@ -92,23 +122,32 @@ export class AskCommand implements Command {
           `🎯 Using ${providerName} (${taskNames[providerName] || '专用配置'}) with model: ${model}`
         );
       } else {
-        // Default models for other providers
-        const otherProviderModels: Record<string, string> = {
-          openai: 'gpt-4.1',
-          anthropic: 'claude-sonnet-4-20250514',
-          gemini: 'gemini-2.5-pro',
-          perplexity: 'sonar-pro',
-          openrouter: 'openai/gpt-4.1',
-          modelbox: 'openai/gpt-4.1',
-          xai: 'grok-3-latest',
-          apizh: 'gpt-4o-mini',
-        };
-
-        model = otherProviderModels[providerName] || 'gpt-4.1';
+        model = getDefaultModel(providerName, 'ask') || 'gpt-4.1';
         console.log(`No model specified, using default model for ${providerName}: ${model}`);
       }
     }
 
+    const candidates = consensus?.candidates ?? [{ provider: providerName, model }];
+    for (const candidate of candidates) {
+      for (const warning of checkModelCapabilities(candidate.provider, candidate.model, {
+        reasoningEffort: options?.reasoningEffort,
+      })) {
+        console.error(`Warning: ${warning}`);
+      }
+    }
+
+    // Read attachments before calling the provider so a bad path fails fast
+    const images = options?.image?.length ? loadImageAttachments(options.image) : undefined;
+    const blindModel = candidates.find(
+      (candidate) => getModelCapabilities(candidate.model)?.vision === false
+    );
+    if (images && blindModel) {
+      throw new ProviderError(
+        `Model ${blindModel.model} does not accept images. Run 'vibe-tools models vision' to find a model that does.`
+      );
+    }
+    const attachedFiles = options?.file?.length ? loadFileAttachments(options.file) : '';
+
     // Create the provider instance
     const provider = createProvider(providerName);
     const maxTokens = options?.maxTokens || defaultMaxTokens;
@@ -127,7 +166,7 @@ export class AskCommand implements Command {
         }
         try {
           console.log(`Fetching from: ${docUrl}`);
-          const cleanedText = await fetchDocContent(docUrl, options.debug ?? false);
+          const cleanedText = await fetchDocContent(docUrl, options.debug ?? false, options.signal);
           if (cleanedText && cleanedText.trim().length > 0) {
             docContents.push(cleanedText);
             console.log(`Successfully extracted content from: ${docUrl}`);
@@ -137,6 +176,7 @@ export class AskCommand implements Command {
             );
           }
         } catch (fetchExtractError) {
+          options.signal?.throwIfAborted();
           console.error(
             `Error during document fetch/extraction for ${docUrl}: ${fetchExtractError instanceof Error ? fetchExtractError.message : String(fetchExtractError)}`
           );
@@ -145,10 +185,9 @@ export class AskCommand implements Command {
       }
 
       if (docContents.length > 0) {
-        // Combine content from all documents
-        docContent = docContents.join('\\n\\n---\\n\\n'); // Separator between documents
-        const escapedDocContent = docContent.replace(/`/g, '\\\\`'); // Escape backticks
-        finalQuery = `Document Content:\\n\`\`\`\\n${escapedDocContent}\\n\`\`\`\\n\\nQuestion:\\n${query}`;
+        // Combine content from all documents with backticks escaped, as it appears in the prompt
+        docContent = docContents.join('\\n\\n---\\n\\n').replace(/`/g, '\\\\`');
+        finalQuery = `Document Content:\\n\`\`\`\\n${docContent}\\n\`\`\`\\n\\nQuestion:\\n${query}`;
         console.log(
           `Successfully added content from ${docContents.length} document(s) to the query.`
         );
@@ -164,21 +203,93 @@ export class AskCommand implements Command {
       );
     }
 
-    let answer: string;
+    if (attachedFiles) {
+      finalQuery = `Attached files:\n\n${attachedFiles}\n\n${finalQuery}`;
+    }
+
+    const history = formatSessionHistory(session);
+    if (history) {
+      finalQuery = `Previous conversation in this session:\n\n${history}\n\nFollow-up question:\n${finalQuery}`;
+    }
+
+    // Load the schema before calling the provider so a bad file fails fast
+    const jsonSchema = options?.schema ? this.loadSchema(options.schema) : undefined;
+
+    // Build the model options
+    const modelOptions: ModelOptions = {
+      model,
+      maxTokens,
+      debug: options?.debug,
+      signal: options?.signal,
+      systemPrompt:
+        'You are a helpful assistant. Answer the following question directly and concisely.',
+      reasoningEffort: options?.reasoningEffort ?? this.config.reasoningEffort,
+      webSearch: options?.webSearch,
+      images,
+    };
+
+    const budget = getContextBudget({
+      provider: providerName,
+      model,
+      maxTokens,
+      prompt: finalQuery,
+      systemPrompt: modelOptions.systemPrompt,
+      sections: [
+        { label: 'Files (--file)', text: attachedFiles },
+        { label: 'Documents (--with-doc)', text: docContent },
+        { label: 'Session history', text: history },
+      ],
+    });
+    if (options?.dryRun) {
+      yield formatDryRun(budget, finalQuery, modelOptions.systemPrompt);
+      if (images) {
+        yield `Images (not counted above): ${images.map((image) => image.path).join(', ')}\n`;
+      }
+      if (consensus) {
+        yield `\nThe prompt would be sent to ${consensus.candidates.map(formatModelSpec).join(', ')} and the answers combined by ${formatModelSpec(consensus.judge)}.\n`;
+      }
+      return;
+    }
+    // Printed to stderr so the answer on stdout stays machine readable
+    console.error(formatContextBudget(budget));
+
     try {
-      // Build the model options
-      const modelOptions: ModelOptions = {
-        model,
-        maxTokens,
-        debug: options?.debug,
-        systemPrompt:
-          'You are a helpful assistant. Answer the following question directly and concisely.',
-        reasoningEffort: options?.reasoningEffort ?? this.config.reasoningEffort,
-        webSearch: options?.webSearch,
-      };
+      let answer = '';
+      if (consensus) {
+        answer = yield* runConsensus(
+          query,
+          consensus.candidates.map((candidate) => ({
+            ...candidate,
+            prompt: finalQuery,
+            options: { ...modelOptions, model: candidate.model },
+          })),
+          consensus.judge,
+          { maxTokens, debug: options?.debug, signal: options?.signal }
+        );
+      } else if (jsonSchema) {
+        // Structured answers are only useful once validated, so they are not streamed
+        const structuredAnswer = await provider.executeStructured(
+          finalQuery,
+          jsonSchemaToZod(jsonSchema),
+          {
+            ...modelOptions,
+            jsonSchema,
+          }
+        );
+        answer = JSON.stringify(structuredAnswer, null, 2);
+        yield answer;
+      } else {
+        // Execute the prompt with the provider using the potentially modified query,
+        // yielding the answer as it streams in
+        for await (const chunk of executePromptStreaming(provider, finalQuery, modelOptions)) {
+          answer += chunk;
+          yield chunk;
+        }
+      }
 
-      // Execute the prompt with the provider using the potentially modified query
-      answer = await provider.executePrompt(finalQuery, modelOptions);
+      if (session) {
+        recordSessionExchange(session, query, answer, providerName, model);
+      }
 
       // Track token count if provider returns it
       if ('tokenUsage' in provider && provider.tokenUsage) {
@@ -207,8 +318,18 @@ export class AskCommand implements Command {
         error
       );
     }
+  }
 
-    // Yield the answer as the result
-    yield answer;
+  private loadSchema(schemaPath: string): Record<string, unknown> {
+    let schema: unknown;
+    try {
+      schema = JSON.parse(readFileSync(resolve(process.cwd(), schemaPath), 'utf-8'));
+    } catch (error) {
+      throw new FileError(`Failed to read JSON schema from ${schemaPath}`, error);
+    }
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+      throw new FileError(`The JSON schema in ${schemaPath} must be an object`);
+    }
+    return schema as Record<string, unknown>;
   }
 }
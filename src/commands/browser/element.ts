@@ -1,9 +1,10 @@
 import type { Command, CommandGenerator, CommandOptions } from '../../types';
-import { chromium } from 'playwright';
+import { chromium, type Browser } from 'playwright';
 import { loadConfig } from '../../config.ts';
 import { ensurePlaywright, ensurePlaywrightBrowsers } from './utils.ts';
 import type { SharedBrowserCommandOptions } from './browserOptions';
 import { setupConsoleLogging, setupNetworkMonitoring, outputMessages } from './utilsShared';
+import { onAbort } from '../../utils/abort';
 
 interface ElementBrowserOptions extends SharedBrowserCommandOptions {
   selector?: string;
@@ -14,7 +15,7 @@ export class ElementCommand implements Command {
   private config = loadConfig();
 
   async *execute(query: string, options: ElementBrowserOptions): CommandGenerator {
-    let browser;
+    let browser: Browser | undefined;
     let consoleMessages: string[] = [];
     let networkMessages: string[] = [];
 
@@ -25,6 +26,9 @@ export class ElementCommand implements Command {
       console: options?.console === undefined ? true : options.console,
     };
 
+    // Ctrl-C closes the browser, which fails whatever page operation is pending
+    const removeAbortListener = onAbort(options?.signal, () => browser?.close());
+
     try {
       // Check for Playwright availability first
       await ensurePlaywright();
@@ -114,6 +118,7 @@ export class ElementCommand implements Command {
     } catch (error) {
       yield `Browser element command error: ${error instanceof Error ? error.message : 'Unknown error'}`;
     } finally {
+      removeAbortListener();
       if (browser) {
         await browser.close();
         yield 'Browser closed.\n';
@@ -1,5 +1,5 @@
 import type { Command, CommandGenerator } from '../../types';
-import { chromium, Page } from 'playwright';
+import { chromium, Page, type Browser } from 'playwright';
 import { loadConfig } from '../../config.ts';
 import { ensurePlaywright, ensurePlaywrightBrowsers } from './utils.ts';
 import type { OpenCommandOptions } from './browserOptions';
@@ -12,6 +12,7 @@ import {
   stopVideoRecording,
 } from './utilsShared';
 import type { Stagehand } from '@browserbasehq/stagehand';
+import { onAbort } from '../../utils/abort';
 
 // Helper function to parse time duration string to milliseconds
 function parseTimeDuration(duration: string): number | null {
@@ -107,12 +108,14 @@ export class OpenCommand implements Command {
       };
 
       const browserType = chromium;
-      let browser;
+      let browser: Browser | undefined;
       let context;
       let page: Page | null = null;
       let consoleMessages: string[] = [];
       let networkMessages: string[] = [];
       let videoPath: string | undefined;
+      // Ctrl-C closes the browser, which fails whatever page operation is pending
+      const removeAbortListener = onAbort(options.signal, () => browser?.close());
 
       try {
         if (options.connectTo) {
@@ -282,6 +285,7 @@ export class OpenCommand implements Command {
         timeouts.length = 0;
         yield `Browser command error: ${error instanceof Error ? error.message : 'Unknown error'}`;
       } finally {
+        removeAbortListener();
         // Clear any remaining timeouts
         for (const timeout of timeouts) {
           clearTimeout(timeout);
@@ -10,6 +10,7 @@ import {
   StagehandConfig,
 } from './config';
 import type { SharedBrowserCommandOptions } from '../browserOptions';
+import { onAbort } from '../../../utils/abort';
 import {
   setupConsoleLogging,
   setupNetworkMonitoring,
@@ -110,11 +111,14 @@ export class ActCommand implements Command {
         });
       }
       stagehand = new Stagehand(config);
+      // Ctrl-C closes the browser, which fails whatever page operation is pending
+      const removeAbortListener = onAbort(options?.signal, () => stagehand?.close());
 
       const timeouts: ReturnType<typeof setTimeout>[] = [];
 
       await using _stagehand = {
         [Symbol.asyncDispose]: async () => {
+          removeAbortListener();
           console.error('closing stagehand, this can take a while');
           await Promise.race([
             options?.connectTo ? undefined : stagehand?.page.close(),
@@ -15,6 +15,7 @@ import {
   StagehandConfig,
 } from './config';
 import type { SharedBrowserCommandOptions } from '../browserOptions';
+import { onAbort } from '../../../utils/abort';
 import {
   setupConsoleLogging,
   setupNetworkMonitoring,
@@ -103,9 +104,12 @@ export class ObserveCommand implements Command {
         console.log('using stagehand config', { ...config, apiKey: 'REDACTED' });
       }
       stagehand = new Stagehand(config);
+      // Ctrl-C closes the browser, which fails whatever page operation is pending
+      const removeAbortListener = onAbort(options?.signal, () => stagehand?.close());
 
       await using _stagehand = {
         [Symbol.asyncDispose]: async () => {
+          removeAbortListener();
           console.error('closing stagehand, this can take a while');
           await Promise.race([
             options?.connectTo ? undefined : stagehand?.page.close(),
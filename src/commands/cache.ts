@@ -0,0 +1,63 @@
+import type { Command, CommandGenerator, CommandOptions } from '../types';
+import { clearResponseCache, getResponseCacheStats } from '../providers/responseCache';
+import { clearPackCache, getPackCacheStats } from '../repomix/packCache';
+import { clearCloneCache, getCloneCacheStats } from '../utils/gitClone';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export class CacheCommand implements Command {
+  async *execute(query: string, _options: CommandOptions): CommandGenerator {
+    const [subcommand, ...rest] = query.trim().split(/\s+/);
+
+    switch (subcommand) {
+      case 'stats': {
+        const stats = getResponseCacheStats();
+        yield `Response cache: ${stats.directory}\n`;
+        yield `Status: ${stats.enabled ? 'enabled' : 'disabled'}\n`;
+        yield `Entries: ${stats.entries} (${stats.expiredEntries} expired)\n`;
+        yield `Size: ${formatBytes(stats.sizeBytes)} of ${formatBytes(stats.maxSizeBytes)}\n`;
+        yield `TTL: ${stats.ttlHours} hours\n`;
+        if (stats.oldestEntry && stats.newestEntry) {
+          yield `Oldest entry: ${stats.oldestEntry.toISOString()}\n`;
+          yield `Newest entry: ${stats.newestEntry.toISOString()}\n`;
+        }
+        const packStats = getPackCacheStats();
+        yield `\nPack cache: ${packStats.directory}\n`;
+        yield `Status: ${packStats.enabled ? 'enabled' : 'disabled'}\n`;
+        yield `Repositories: ${packStats.repositories}\n`;
+        yield `Size: ${formatBytes(packStats.sizeBytes)}\n`;
+        const cloneStats = getCloneCacheStats();
+        yield `\nRemote repositories: ${cloneStats.directory}\n`;
+        yield `Repositories: ${cloneStats.repositories}\n`;
+        yield `Size: ${formatBytes(cloneStats.sizeBytes)}\n`;
+        return;
+      }
+      case 'clear': {
+        if (rest.includes('packs')) {
+          const removed = clearPackCache();
+          yield `Removed the packs of ${removed} ${removed === 1 ? 'repository' : 'repositories'}\n`;
+          return;
+        }
+        if (rest.includes('repos')) {
+          const removed = clearCloneCache();
+          yield `Removed the clones of ${removed} remote ${removed === 1 ? 'repository' : 'repositories'}\n`;
+          return;
+        }
+        const expiredOnly = rest.includes('expired');
+        const removed = clearResponseCache(expiredOnly);
+        yield `Removed ${removed} ${expiredOnly ? 'expired ' : ''}cached response${removed === 1 ? '' : 's'}\n`;
+        return;
+      }
+      default:
+        yield 'Please specify a subcommand: stats, clear, clear expired, clear packs or clear repos\n';
+    }
+  }
+}
@@ -16,6 +16,11 @@ import TestCommand from './test/index.ts';
 import YouTubeCommand from './youtube/index.ts';
 import { WaitCommand } from './wait.ts';
 import { NixCommand } from './nix/nixCommand.ts';
+import { CacheCommand } from './cache.ts';
+import { SessionCommand } from './session.ts';
+import { ModelsCommand } from './models.ts';
+import { LogsCommand } from './logs.ts';
+import { PromptsCommand } from './prompts.ts';
 
 export const commands: CommandMap = {
   web: new WebCommand(),
@@ -34,4 +39,9 @@ export const commands: CommandMap = {
   youtube: new YouTubeCommand(),
   wait: new WaitCommand(),
   nix: new NixCommand(),
+  cache: new CacheCommand(),
+  session: new SessionCommand(),
+  models: new ModelsCommand(),
+  logs: new LogsCommand(),
+  prompts: new PromptsCommand(),
 };
@@ -24,6 +24,7 @@ import {
   getVibeToolsLogo,
   collectRequiredProviders,
   parseProviderModel,
+  getProviderApiKeyEnv,
   setupClinerules,
   handleLegacyMigration,
   shouldRunNonInteractive,
@@ -55,9 +56,10 @@ export class InstallCommand implements Command {
 
       for (const provider of requiredProviders) {
         // 对于APIZH系列提供商，统一使用APIZH_API_KEY
-        const envKey = provider.toLowerCase().startsWith('apizh')
-          ? 'APIZH_API_KEY'
-          : `${provider.toUpperCase()}_API_KEY`;
+        const envKey = getProviderApiKeyEnv(provider);
+        if (!envKey) {
+          continue;
+        }
 
         // 如果已经询问过这个密钥，跳过
         if (askedForApizh.has(envKey)) {
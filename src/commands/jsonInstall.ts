@@ -15,8 +15,8 @@ import {
   CODEX_LOCAL_INSTRUCTIONS_FILENAME,
   LOCAL_ENV_PATH,
   LOCAL_CONFIG_PATH,
-  VALID_PROVIDERS,
-  VALID_PROVIDERS_LOWERCASE,
+  getValidProviders,
+  getProviderApiKeyEnv,
   updateRulesSection,
   ensureDirectoryExists,
   clearScreen,
@@ -36,6 +36,8 @@ function parseJsonConfig(
   try {
     const parsedConfig = JSON.parse(jsonString);
     const validIdes = ['cursor', 'claude-code', 'codex', 'windsurf', 'cline', 'roo'];
+    const validProviders = getValidProviders();
+    const validProvidersLowercase = validProviders.map((p) => p.toLowerCase());
     let configToUse = parsedConfig;
 
     // Check if there's an "agents" wrapper and use it if present
@@ -74,9 +76,9 @@ function parseJsonConfig(
       }
 
       // Case-insensitive check for provider
-      if (!VALID_PROVIDERS_LOWERCASE.includes(providerObj.provider.toLowerCase())) {
+      if (!validProvidersLowercase.includes(providerObj.provider.toLowerCase())) {
         throw new Error(
-          `Invalid provider "${providerObj.provider}" in configuration for "${key}". Valid providers are: ${VALID_PROVIDERS.join(', ')}`
+          `Invalid provider "${providerObj.provider}" in configuration for "${key}". Valid providers are: ${validProviders.join(', ')}`
         );
       }
 
@@ -85,9 +87,9 @@ function parseJsonConfig(
       }
 
       // Normalize provider case to match expected format
-      const providerIndex = VALID_PROVIDERS_LOWERCASE.indexOf(providerObj.provider.toLowerCase());
+      const providerIndex = validProvidersLowercase.indexOf(providerObj.provider.toLowerCase());
       // Ensure provider is stored in lowercase
-      providerObj.provider = VALID_PROVIDERS_LOWERCASE[providerIndex] as Provider;
+      providerObj.provider = validProvidersLowercase[providerIndex] as Provider;
     }
 
     return configToUse as Record<string, { provider: Provider; model: string }> & { ide?: string };
@@ -111,7 +113,10 @@ export class JsonInstallCommand implements Command {
 
       // Now ask for each required provider
       for (const provider of requiredProviders) {
-        const envKey = `${provider.toUpperCase()}_API_KEY`;
+        const envKey = getProviderApiKeyEnv(provider);
+        if (!envKey) {
+          continue;
+        }
         const currentValue = process.env[envKey];
 
         if (currentValue) {
@@ -0,0 +1,75 @@
+import type { Command, CommandGenerator, CommandOptions } from '../types';
+import { AUDIT_LOG_DIR, readAuditLog, type AuditLogEntry } from '../providers/auditLog';
+
+const DEFAULT_TAIL_COUNT = 20;
+const PREVIEW_LENGTH = 80;
+
+function preview(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > PREVIEW_LENGTH
+    ? `${singleLine.slice(0, PREVIEW_LENGTH)}...`
+    : singleLine;
+}
+
+function formatEntry(entry: AuditLogEntry): string {
+  const tokens =
+    entry.promptTokens !== undefined
+      ? `  ${entry.promptTokens}+${entry.completionTokens ?? 0} tokens`
+      : '';
+  const status = entry.error ? `  ERROR: ${preview(entry.error)}` : '';
+  return `${entry.timestamp}  ${entry.provider}/${entry.model}  ${entry.latencyMs}ms${tokens}${status}\n  ${preview(entry.prompt)}\n`;
+}
+
+export class LogsCommand implements Command {
+  async *execute(query: string, _options: CommandOptions): CommandGenerator {
+    const [subcommand, ...args] = query.trim().split(/\s+/);
+
+    switch (subcommand) {
+      case 'tail': {
+        const count = args[0] ? Number.parseInt(args[0], 10) : DEFAULT_TAIL_COUNT;
+        if (!Number.isInteger(count) || count <= 0) {
+          yield `Invalid number of entries: ${args[0]}\n`;
+          return;
+        }
+        const entries = readAuditLog();
+        if (entries.length === 0) {
+          yield `No audit log entries in ${AUDIT_LOG_DIR}\n`;
+          return;
+        }
+        for (const entry of entries.slice(-count)) {
+          yield formatEntry(entry);
+        }
+        return;
+      }
+      case 'search': {
+        const text = args.join(' ').toLowerCase();
+        if (!text) {
+          yield 'Please specify the text to search for: vibe-tools logs search <text>\n';
+          return;
+        }
+        const matches = readAuditLog().filter((entry) =>
+          [
+            entry.provider,
+            entry.model,
+            entry.cwd,
+            entry.prompt,
+            entry.systemPrompt,
+            entry.response,
+            entry.error,
+          ].some((field) => field?.toLowerCase().includes(text))
+        );
+        if (matches.length === 0) {
+          yield `No audit log entries match "${args.join(' ')}"\n`;
+          return;
+        }
+        for (const entry of matches) {
+          yield formatEntry(entry);
+        }
+        yield `${matches.length} matching entr${matches.length === 1 ? 'y' : 'ies'}\n`;
+        return;
+      }
+      default:
+        yield 'Please specify a subcommand: tail [count] or search <text>\n';
+    }
+  }
+}
@@ -26,7 +26,7 @@ export class MCPClientNew {
   public config: MCPClientOptions;
 
   constructor(
-    serverConfig: MCPClientOptions & { model: string; maxTokens?: number },
+    serverConfig: MCPClientOptions & { model: string; maxTokens?: number; signal?: AbortSignal },
     private debug: boolean
   ) {
     this.config = serverConfig;
@@ -40,6 +40,7 @@ export class MCPClientNew {
       mcpConfig: serverConfig,
       model,
       maxTokens: serverConfig.maxTokens || 8192,
+      signal: serverConfig.signal,
       logger: (message) => {
         console.log(message);
       },
@@ -97,7 +97,10 @@ export class MarketplaceManager {
     return { servers: await Promise.all(servers) };
   }
 
-  async findServersForIntent(query: string, options: { debug: boolean }): Promise<MCPServer[]> {
+  async findServersForIntent(
+    query: string,
+    options: { debug: boolean; signal?: AbortSignal }
+  ): Promise<MCPServer[]> {
     const matches = await this.searchServers(query, options);
     return matches;
   }
@@ -183,7 +186,10 @@ export class MarketplaceManager {
     );
   }
 
-  async searchServers(query: string, options: { debug: boolean }): Promise<MCPServer[]> {
+  async searchServers(
+    query: string,
+    options: { debug: boolean; signal?: AbortSignal }
+  ): Promise<MCPServer[]> {
     try {
       // 1. First, get MCP servers from the marketplace
       const marketplaceData = await this.getMarketplaceData();
@@ -219,6 +225,7 @@ ${JSON.stringify(allServers, null, 2)}`;
         systemPrompt:
           'You are a semantic search expert that helps find the most relevant MCP servers based on user queries. You only return mcpIds as a comma separated list, no other text.',
         debug: options.debug,
+        signal: options.signal,
       });
 
       // 6. Parse the response to get matching IDs
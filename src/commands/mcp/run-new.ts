@@ -158,6 +158,7 @@ HOWEVER if the server details show that you cannot run with uvx or npx, or if yo
         systemPrompt:
           'You are an expert at generating MCP server arguments. You only return a raw JSON object, no markdown, no backticks, no other text.',
         debug: options.debug,
+        signal: options.signal,
       });
 
       // Clean the response of any markdown formatting
@@ -318,6 +319,7 @@ HOWEVER if the server details show that you cannot run with uvx or npx, or if yo
               env,
             },
             maxTokens: 8192,
+            signal: options.signal,
             logger: (message) => yield message,
           });
 
@@ -0,0 +1,77 @@
+import type { Command, CommandGenerator, CommandOptions } from '../types';
+import { loadConfig } from '../config';
+import { formatContextWindow, listModels, type ModelInfo } from '../providers/modelRegistry';
+import { getAllProviders } from '../utils/providerAvailability';
+
+// Query words that filter by capability instead of by model name
+const CAPABILITY_FILTERS: Record<string, (model: ModelInfo) => boolean> = {
+  web: (model) => model.webSearch,
+  reasoning: (model) => model.reasoningEffort,
+  vision: (model) => model.vision,
+};
+
+const ROLE_LABELS: Record<string, string> = {
+  default: 'default',
+  ask: 'ask',
+  web: 'web',
+  planFile: 'plan files',
+  planThinking: 'plan thinking',
+};
+
+function formatPrice(model: ModelInfo): string {
+  if (!model.pricing) {
+    return '-';
+  }
+  return `$${model.pricing.input}/$${model.pricing.output}`;
+}
+
+export class ModelsCommand implements Command {
+  async *execute(query: string, options: CommandOptions): CommandGenerator {
+    const words = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    const availableOnly = words.includes('available');
+    const capabilityFilters = words.filter((word) => CAPABILITY_FILTERS[word]);
+    const nameFilters = words.filter((word) => word !== 'available' && !CAPABILITY_FILTERS[word]);
+    // The specialised APIZH providers share the models of apizh
+    const providerFilter = options?.provider?.startsWith('apizh-') ? 'apizh' : options?.provider;
+    const availableProviders = new Set(
+      getAllProviders()
+        .filter((provider) => provider.available)
+        .map((provider) => provider.provider)
+    );
+
+    const models = listModels(loadConfig()).filter(
+      (model) =>
+        (!providerFilter || model.provider === providerFilter) &&
+        (!availableOnly || availableProviders.has(model.provider)) &&
+        capabilityFilters.every((filter) => CAPABILITY_FILTERS[filter](model)) &&
+        nameFilters.every((filter) => `${model.provider}/${model.model}`.includes(filter))
+    );
+
+    if (models.length === 0) {
+      yield 'No models match the given filters.\n';
+      return;
+    }
+
+    const rows = [
+      ['MODEL', 'CONTEXT', 'WEB', 'REASONING', 'VISION', 'PRICE IN/OUT', 'DEFAULT FOR'],
+      ...models.map((model) => [
+        `${model.provider}/${model.model}`,
+        formatContextWindow(model.contextWindow),
+        model.webSearch ? 'yes' : '-',
+        model.reasoningEffort ? 'yes' : '-',
+        model.vision ? 'yes' : '-',
+        formatPrice(model),
+        model.defaultFor.map((role) => ROLE_LABELS[role]).join(', '),
+      ]),
+    ];
+    const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+    for (const row of rows) {
+      yield `${row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd()}\n`;
+    }
+
+    yield '\nPrices are USD per million tokens. Filter with: web, reasoning, vision, available, a model name or --provider.\n';
+  }
+}
@@ -2,6 +2,7 @@ import type { Command, CommandGenerator, CommandOptions } from '../../types';
 import { NixUtils } from './utils.ts';
 import { createProvider } from '../../providers/base.ts';
 import { loadConfig } from '../../config.ts';
+import { renderPrompt } from '../../prompts/templates.ts';
 
 export class AssistCommand implements Command {
   async *execute(query: string, options: CommandOptions): CommandGenerator {
@@ -52,27 +53,7 @@ export class AssistCommand implements Command {
         // 忽略文件列表获取失败
       }
 
-      const prompt = `作为资深 Nix 专家和开发顾问，请帮助用户解决以下问题：
-
-**用户请求：** ${query}
-
-**当前环境：**
-${context}
-
-请提供：
-1. **问题分析**：理解用户的需求和当前状况
-2. **解决方案**：提供具体、可执行的步骤
-3. **代码示例**：如果需要修改配置，提供完整的代码
-4. **执行命令**：列出需要运行的具体命令
-5. **验证方法**：如何确认解决方案生效
-6. **后续建议**：相关的最佳实践和优化建议
-
-要求：
-- 用中文回答
-- 提供具体可执行的解决方案
-- 如果需要修改文件，提供完整的文件内容
-- 优先使用最新的 Nix Flakes 最佳实践
-- 考虑项目的实际需求和环境`;
+      const prompt = renderPrompt('nix-assist', { query, context });
 
       const config = loadConfig();
 
@@ -91,6 +72,7 @@ ${context}
         model,
         maxTokens,
         debug: options.debug || false,
+        signal: options.signal,
       });
 
       yield `💡 AI 助手回复:\n\n${response}\n\n`;
@@ -1,6 +1,7 @@
 import type { Command, CommandGenerator, CommandOptions } from '../../types';
 import { NixUtils } from './utils.ts';
 import { createProvider } from '../../providers/base.ts';
+import { renderPrompt } from '../../prompts/templates.ts';
 
 export class ExplainCommand implements Command {
   async *execute(query: string, options: CommandOptions): CommandGenerator {
@@ -21,40 +22,7 @@ export class ExplainCommand implements Command {
 
       const flakeContent = await NixUtils.readFlakeFile();
 
-      let prompt: string;
-
-      if (query.trim()) {
-        // 解释特定部分
-        prompt = `作为 Nix Flakes 专家，请详细解释以下 flake.nix 配置中关于 "${query}" 的部分：
-
-\`\`\`nix
-${flakeContent}
-\`\`\`
-
-请特别关注：
-1. 这部分配置的作用和目的
-2. 每个参数的含义
-3. 如何修改和定制
-4. 相关的最佳实践
-
-用中文回答，适合初学者理解。`;
-      } else {
-        // 解释整个配置
-        prompt = `作为 Nix Flakes 专家，请详细解释以下 flake.nix 配置文件：
-
-\`\`\`nix
-${flakeContent}
-\`\`\`
-
-请逐部分解释：
-1. 整体结构和设计思路
-2. inputs 部分：每个依赖的作用
-3. outputs 部分：每个输出的用途
-4. 关键配置选项的含义
-5. 如何修改和扩展
-
-用中文回答，提供清晰易懂的解释。`;
-      }
+      const prompt = renderPrompt('nix-explain', { query: query.trim(), flake: flakeContent });
 
       const provider = createProvider(options.provider || 'apizh-analysis');
 
@@ -62,6 +30,7 @@ ${flakeContent}
         model: options.model || 'claude-sonnet-4-20250514',
         maxTokens: options.maxTokens || 4000,
         debug: options.debug || false,
+        signal: options.signal,
       });
 
       yield `📖 配置解释:\n\n${explanation}`;
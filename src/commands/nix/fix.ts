@@ -2,6 +2,7 @@ import type { Command, CommandGenerator, CommandOptions } from '../../types';
 import { NixUtils } from './utils.ts';
 import { createProvider } from '../../providers/base.ts';
 import { loadConfig } from '../../config.ts';
+import { renderPrompt } from '../../prompts/templates.ts';
 
 export class FixCommand implements Command {
   async *execute(query: string, options: CommandOptions): CommandGenerator {
@@ -54,46 +55,14 @@ export class FixCommand implements Command {
         }
       }
 
-      const prompt = `作为 Nix 专家，请帮助修复以下问题：
-
-**问题描述：** ${problemDescription}
-
-**环境信息：**
-- Nix 版本: ${envInfo.nixVersion || '未知'}
-- 项目类型: ${envInfo.projectType || '未知'}
-- 有 flake.nix: ${envInfo.hasFlake}
-
-${
-  flakeContent
-    ? `**当前 flake.nix 内容：**
-\`\`\`nix
-${flakeContent}
-\`\`\``
-    : ''
-}
-
-${
-  errorDetails
-    ? `**错误详情：**
-\`\`\`
-${errorDetails}
-\`\`\``
-    : ''
-}
-
-请提供：
-
-1. **问题诊断**：分析问题的根本原因
-2. **修复方案**：具体的修复步骤
-3. **修复后的完整配置**：如果需要修改 flake.nix，请提供完整的修复后文件内容
-4. **验证命令**：修复后应该运行的验证命令
-5. **预防措施**：如何避免类似问题
-
-要求：
-- 用中文回答
-- 提供可直接使用的代码
-- 确保修复方案符合最新的 Nix Flakes 最佳实践
-- 如果问题无法自动修复，说明需要手动干预的部分`;
+      const prompt = renderPrompt('nix-fix', {
+        problem: problemDescription,
+        nixVersion: envInfo.nixVersion || '未知',
+        projectType: envInfo.projectType || '未知',
+        hasFlake: String(envInfo.hasFlake),
+        flake: flakeContent,
+        errorDetails,
+      });
 
       const config = loadConfig();
       const provider = createProvider(options.provider || config.nix?.provider || 'apizh');
@@ -104,6 +73,7 @@ ${errorDetails}
         model,
         maxTokens: options.maxTokens || 5000,
         debug: options.debug || false,
+        signal: options.signal,
       });
 
       yield `🛠️  修复建议:\n\n${response}\n\n`;
@@ -1,6 +1,7 @@
 import type { Command, CommandGenerator, CommandOptions } from '../../types';
 import { NixUtils } from './utils.ts';
 import { createProvider } from '../../providers/base.ts';
+import { renderPrompt } from '../../prompts/templates.ts';
 
 export class InitCommand implements Command {
   async *execute(query: string, options: CommandOptions): CommandGenerator {
@@ -28,17 +29,7 @@ export class InitCommand implements Command {
       }
 
       // 使用 AI 生成适合项目类型的 flake.nix
-      const prompt = `作为 Nix Flakes 专家，请为 ${projectType} 项目生成一个完整、实用的 flake.nix 配置文件。
-
-要求：
-1. 使用最新的 Nix Flakes 最佳实践
-2. 包含适合 ${projectType} 项目的开发环境配置
-3. 包含构建配置（如果适用）
-4. 使用 flake-utils 简化多系统支持
-5. 添加详细的注释说明
-6. 包含常用的开发工具
-
-请只返回 flake.nix 文件的内容，不要包含其他解释文字。`;
+      const prompt = renderPrompt('nix-init', { projectType });
 
       const provider = createProvider(options.provider || 'apizh-coding');
 
@@ -46,6 +37,7 @@ export class InitCommand implements Command {
         model: options.model || 'claude-sonnet-4-20250514',
         maxTokens: options.maxTokens || 2000,
         debug: options.debug || false,
+        signal: options.signal,
       });
 
       // 清理生成的内容，确保只包含 nix 代码
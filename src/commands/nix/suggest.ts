@@ -1,6 +1,7 @@
 import type { Command, CommandGenerator, CommandOptions } from '../../types';
 import { NixUtils } from './utils.ts';
 import { createProvider } from '../../providers/base.ts';
+import { renderPrompt } from '../../prompts/templates.ts';
 
 export class SuggestCommand implements Command {
   async *execute(query: string, options: CommandOptions): CommandGenerator {
@@ -22,20 +23,7 @@ export class SuggestCommand implements Command {
       const flakeContent = await NixUtils.readFlakeFile();
       const projectType = envInfo.projectType || 'Generic';
 
-      const prompt = `作为 Nix Flakes 专家，请为以下 ${projectType} 项目的 flake.nix 配置提供具体的改进建议：
-
-\`\`\`nix
-${flakeContent}
-\`\`\`
-
-专注提供：
-1. 性能优化建议
-2. 安全性改进
-3. 开发体验提升
-4. 最新最佳实践
-5. 具体的代码修改建议
-
-请提供可直接实施的建议，用中文回答。`;
+      const prompt = renderPrompt('nix-suggest', { flake: flakeContent, projectType });
 
       const provider = createProvider(options.provider || 'apizh-analysis');
 
@@ -43,6 +31,7 @@ ${flakeContent}
         model: options.model || 'claude-sonnet-4-20250514',
         maxTokens: options.maxTokens || 3000,
         debug: options.debug || false,
+        signal: options.signal,
       });
 
       yield `🚀 改进建议:\n\n${suggestions}`;
@@ -1,6 +1,7 @@
 import type { Command, CommandGenerator, CommandOptions } from '../../types';
 import { NixUtils } from './utils.ts';
 import { createProvider } from '../../providers/base.ts';
+import { renderPrompt } from '../../prompts/templates.ts';
 
 export class TroubleshootCommand implements Command {
   async *execute(query: string, options: CommandOptions): CommandGenerator {
@@ -34,19 +35,7 @@ export class TroubleshootCommand implements Command {
           }
         }
 
-        const prompt = `作为 Nix 专家，请帮助诊断以下问题：
-
-问题描述：${query}
-
-${context}
-
-请提供：
-1. 问题原因分析
-2. 具体解决步骤
-3. 预防措施
-4. 相关资源链接
-
-用中文回答，提供具体可执行的解决方案。`;
+        const prompt = renderPrompt('nix-troubleshoot', { query, context });
 
         const provider = createProvider(options.provider || 'apizh-analysis');
 
@@ -54,6 +43,7 @@ ${context}
           model: options.model || 'claude-sonnet-4-20250514',
           maxTokens: options.maxTokens || 3000,
           debug: options.debug || false,
+          signal: options.signal,
         });
 
         yield `🩺 AI 诊断结果:\n\n${diagnosis}`;
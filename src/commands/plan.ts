@@ -1,24 +1,48 @@
 import type { Command, CommandGenerator, CommandOptions, Config, Provider } from '../types';
 import { defaultMaxTokens, loadConfig, loadEnv } from '../config';
-import { pack } from 'repomix';
-import { readFileSync } from 'node:fs';
 import type { ModelOptions, BaseModelProvider } from '../providers/base';
-import { createProvider } from '../providers/base';
-import { FileError, ProviderError } from '../errors';
-import { loadFileConfigWithOverrides } from '../repomix/repomixConfig';
+import { createProvider, executePromptStreaming } from '../providers/base';
+import { BudgetExceededError, FileError, ProviderError } from '../errors';
+import { packRepository } from '../repomix/packCache';
+import { rankFiles } from '../repomix/retrieval';
+import { compressPackedFiles } from '../repomix/compress';
+import {
+  formatRepositories,
+  packRepositories,
+  packRepositoryFiles,
+  parseRepoPaths,
+  type PackedRepositorySource,
+} from '../repomix/multiRepo';
 import { fetchDocContent } from '../utils/fetch-doc.ts';
+import { abortable } from '../utils/abort';
+import { checkModelCapabilities, getDefaultModel } from '../providers/modelRegistry';
+import {
+  countTokens,
+  formatContextBudget,
+  formatDryRun,
+  getContextBudget,
+} from '../utils/contextBudget';
+import { renderPrompt } from '../prompts/templates';
 
 const FIVE_MINUTES = 300000;
 const TEN_MINUTES = 600000;
 
-type FileProvider = 'gemini' | 'openai' | 'openrouter' | 'perplexity' | 'modelbox' | 'anthropic';
+type FileProvider =
+  | 'gemini'
+  | 'openai'
+  | 'openrouter'
+  | 'perplexity'
+  | 'modelbox'
+  | 'anthropic'
+  | 'ollama';
 type ThinkingProvider =
   | 'gemini'
   | 'openai'
   | 'openrouter'
   | 'perplexity'
   | 'modelbox'
-  | 'anthropic';
+  | 'anthropic'
+  | 'ollama';
 
 // Plan-specific options interface
 interface PlanCommandOptions extends CommandOptions {
@@ -29,24 +53,6 @@ interface PlanCommandOptions extends CommandOptions {
   trackTelemetry?: (data: Record<string, any>) => void;
 }
 
-const DEFAULT_FILE_MODELS: Record<FileProvider, string> = {
-  gemini: 'gemini-2.5-flash', // largest context window (1M tokens)
-  openai: 'gpt-4.1', // largest context window (1M tokens)
-  perplexity: 'sonar-pro', // largest context window (200k tokens)
-  openrouter: 'google/gemini-2.5-flash', // largest context window (1M tokens)
-  modelbox: 'google/gemini-2.5-flash',
-  anthropic: 'claude-sonnet-4-20250514',
-};
-
-const DEFAULT_THINKING_MODELS: Record<ThinkingProvider, string> = {
-  gemini: 'gemini-2.5-pro',
-  openai: 'o3',
-  perplexity: 'r1-1776',
-  openrouter: 'openai/o3',
-  modelbox: 'anthropic/claude-sonnet-4-20250514',
-  anthropic: 'claude-sonnet-4-20250514',
-};
-
 // Helper function to infer provider from model name
 function inferProviderFromModel(modelName: string): FileProvider | undefined {
   if (!modelName) return undefined;
@@ -144,15 +150,18 @@ export class PlanCommand implements Command {
         this.config.plan?.fileProvider || // 3. Configured default fileProvider
         'gemini'; // 4. Overall default
 
-      let fileProvider;
-      try {
-        fileProvider = createProvider(fileProviderName);
-      } catch (error) {
-        console.error(`Failed to initialize file provider ${fileProviderName}`, error);
-        throw new ProviderError(
-          `Failed to initialize file provider ${fileProviderName}. Please check your API keys or try a different provider.`,
-          error
-        );
+      // With --retrieve files are ranked locally, so the file provider isn't needed
+      let fileProvider: BaseModelProvider | undefined;
+      if (!options?.retrieve) {
+        try {
+          fileProvider = createProvider(fileProviderName);
+        } catch (error) {
+          console.error(`Failed to initialize file provider ${fileProviderName}`, error);
+          throw new ProviderError(
+            `Failed to initialize file provider ${fileProviderName}. Please check your API keys or try a different provider.`,
+            error
+          );
+        }
       }
 
       // Select thinking provider with inference fallback and respect configuration
@@ -178,18 +187,27 @@ export class PlanCommand implements Command {
         options?.fileModel ||
         this.config.plan?.fileModel ||
         (this.config as Record<string, any>)[fileProviderName]?.model ||
-        DEFAULT_FILE_MODELS[fileProviderName as keyof typeof DEFAULT_FILE_MODELS];
+        getDefaultModel(fileProviderName, 'planFile');
       const thinkingModel =
         options?.thinkingModel ||
         options?.model || // Use --model for thinking model if specified
         this.config.plan?.thinkingModel ||
         (this.config as Record<string, any>)[thinkingProviderName]?.model ||
-        DEFAULT_THINKING_MODELS[thinkingProviderName as keyof typeof DEFAULT_THINKING_MODELS];
+        getDefaultModel(thinkingProviderName, 'planThinking');
 
-      yield `Using file provider: ${fileProviderName}\n`;
-      yield `Using file model: ${fileModel}\n`;
+      if (fileProvider) {
+        yield `Using file provider: ${fileProviderName}\n`;
+        yield `Using file model: ${fileModel}\n`;
+      } else {
+        yield `Using the ${options.retrieve} best matching files, ranked locally\n`;
+      }
       yield `Using thinking provider: ${thinkingProviderName}\n`;
       yield `Using thinking model: ${thinkingModel}\n`;
+      for (const warning of checkModelCapabilities(thinkingProviderName, thinkingModel, {
+        reasoningEffort: options?.reasoningEffort,
+      })) {
+        yield `Warning: ${warning}\n`;
+      }
 
       // Track the specific providers and models for the plan command
       options?.trackTelemetry?.({
@@ -203,41 +221,54 @@ export class PlanCommand implements Command {
 
       // Get file listing
       let packedRepo: string;
-      try {
-        yield 'Running repomix to get file listing...\n';
-
-        const repomixDirectory = process.cwd();
-        const tempFile = '.repomix-plan-files.txt';
-        const repomixConfig = await loadFileConfigWithOverrides(repomixDirectory, {
-          output: {
-            filePath: tempFile,
-          },
-        });
-        const repomixResult = await pack([repomixDirectory], repomixConfig);
-
-        if (options?.debug) {
-          yield 'Repomix completed successfully.\n';
-        }
+      // Set with --repo-path, file paths then start with the name of their repository
+      let repositories: PackedRepositorySource[] | undefined;
+      if (options?.repoPath?.length) {
+        repositories = yield* packRepositories(
+          parseRepoPaths(options.repoPath),
+          query,
+          options,
+          this.config.repo?.maxRepoSizeMB || 100
+        );
+        packedRepo = formatRepositories(repositories);
+        const totalFiles = repositories.reduce((sum, repository) => sum + repository.totalFiles, 0);
+        const totalTokens = repositories.reduce((sum, repository) => sum + repository.tokens, 0);
+        yield `Found ${totalFiles} files in ${repositories.length} repositories, approx ${totalTokens} tokens.\n`;
+        options?.trackTelemetry?.({ contextTokens: totalTokens });
+      } else {
+        try {
+          yield 'Running repomix to get file listing...\n';
+
+          const packed = await abortable(
+            packRepository(process.cwd(), {}, options),
+            options?.signal
+          );
+          const repomixResult = packed.result;
 
-        // TODO: this seems like an expensive way to get a list of files
-        packedRepo = readFileSync(tempFile, 'utf-8');
+          if (options?.debug) {
+            yield `Repomix completed successfully, ${packed.reusedFiles} files unchanged since the last pack.\n`;
+          }
+
+          // TODO: this seems like an expensive way to get a list of files
+          packedRepo = packed.text;
 
-        yield `Found ${repomixResult.totalFiles} files, approx ${repomixResult.totalTokens} tokens.\n`;
+          yield `Found ${repomixResult.totalFiles} files, approx ${repomixResult.totalTokens} tokens.\n`;
 
-        // Track total packed repo context tokens
-        options?.trackTelemetry?.({
-          contextTokens: repomixResult.totalTokens,
-        });
+          // Track total packed repo context tokens
+          options?.trackTelemetry?.({
+            contextTokens: repomixResult.totalTokens,
+          });
 
-        if (options?.debug) {
-          yield 'First few files:\n';
-          yield `${packedRepo.split('\n').slice(0, 5).join('\n')}\n\n`;
-          yield 'File listing format check:\n';
-          yield `First 200 characters: ${JSON.stringify(packedRepo.slice(0, 200))}\n`;
-          yield `Last 200 characters: ${JSON.stringify(packedRepo.slice(-200))}\n\n`;
+          if (options?.debug) {
+            yield 'First few files:\n';
+            yield `${packedRepo.split('\n').slice(0, 5).join('\n')}\n\n`;
+            yield 'File listing format check:\n';
+            yield `First 200 characters: ${JSON.stringify(packedRepo.slice(0, 200))}\n`;
+            yield `Last 200 characters: ${JSON.stringify(packedRepo.slice(-200))}\n\n`;
+          }
+        } catch (error) {
+          throw new FileError('Failed to get file listing', error);
         }
-      } catch (error) {
-        throw new FileError('Failed to get file listing', error);
       }
 
       // Fetch document content if the flag is provided
@@ -252,7 +283,11 @@ export class PlanCommand implements Command {
           }
           try {
             yield `Fetching from: ${docUrl}...\n`;
-            const cleanedText = await fetchDocContent(docUrl, options.debug ?? false);
+            const cleanedText = await fetchDocContent(
+              docUrl,
+              options.debug ?? false,
+              options.signal
+            );
             if (cleanedText && cleanedText.trim().length > 0) {
               docContents.push(cleanedText);
               yield `Successfully extracted content from: ${docUrl}\n`;
@@ -260,6 +295,7 @@ export class PlanCommand implements Command {
               yield `Warning: fetchDocContent returned empty or whitespace-only text for ${docUrl}. Skipping.\n`;
             }
           } catch (fetchExtractError) {
+            options.signal?.throwIfAborted();
             const errorMessage =
               fetchExtractError instanceof Error
                 ? fetchExtractError.message
@@ -278,72 +314,126 @@ export class PlanCommand implements Command {
         yield `Warning: --with-doc provided but not in the expected format (array of URLs). Proceeding without document context.\n`;
       }
 
+      const packSource = repositories
+        ? repositories.map((repository) => repository.directory).join(' ')
+        : process.cwd();
+
+      // The file model picks files from their signatures, the plan still sees them in full
+      if (fileProvider && (options?.compress ?? this.config.plan?.compress)) {
+        yield 'Compressing the repository to signatures...\n';
+        packedRepo = await compressPackedFiles(packedRepo, packSource, new Set(), options?.signal);
+        yield `Compressed the file listing to approx ${countTokens(packedRepo)} tokens.\n`;
+      }
+
       // Get relevant files
       let filePaths: string[];
-      try {
-        const maxTokens =
-          options?.maxTokens ||
-          this.config.plan?.fileMaxTokens ||
-          (this.config as Record<string, any>)[fileProviderName]?.maxTokens ||
-          defaultMaxTokens;
-
-        const effectiveFileMaxTokens = maxTokens ?? defaultMaxTokens; // Ensure maxTokens is a number
-
-        // Explicitly create a full ModelOptions object
-        const fileModelOptions: ModelOptions = {
-          model: fileModel,
-          maxTokens: effectiveFileMaxTokens,
-          debug: options?.debug,
-          reasoningEffort: options?.reasoningEffort ?? this.config.reasoningEffort,
-          webSearch: options?.webSearch,
-        };
-
-        yield `Asking ${fileProviderName} to identify relevant files using model: ${fileModel} with max tokens: ${effectiveFileMaxTokens}...\n`;
-
-        if (options?.debug) {
-          yield 'Provider configuration:\n';
-          yield `Provider: ${fileProviderName}\n`;
-          yield `Model: ${fileModel}\n`;
-          yield `Max tokens: ${options?.maxTokens || this.config.plan?.fileMaxTokens}\n\n`;
-        }
-
-        filePaths = await getRelevantFiles(
-          fileProvider,
+      if (!fileProvider) {
+        yield 'Ranking files by relevance to the query...\n';
+        const ranked = await rankFiles(
           query,
           packedRepo,
-          fileModelOptions, // Pass the fully typed object
-          docContent
+          packSource,
+          options.retrieve ?? 0,
+          options.signal
         );
+        filePaths = ranked.map((file) => file.path);
+      } else {
+        try {
+          const maxTokens =
+            options?.maxTokens ||
+            this.config.plan?.fileMaxTokens ||
+            (this.config as Record<string, any>)[fileProviderName]?.maxTokens ||
+            defaultMaxTokens;
+
+          const effectiveFileMaxTokens = maxTokens ?? defaultMaxTokens; // Ensure maxTokens is a number
+
+          // Explicitly create a full ModelOptions object
+          const fileModelOptions: ModelOptions = {
+            model: fileModel,
+            maxTokens: effectiveFileMaxTokens,
+            debug: options?.debug,
+            signal: options?.signal,
+            reasoningEffort: options?.reasoningEffort ?? this.config.reasoningEffort,
+            webSearch: options?.webSearch,
+          };
+
+          const filesPrompt = buildRelevantFilesPrompt(
+            query,
+            packedRepo,
+            docContent,
+            repositories?.map((repository) => repository.name).join(', ')
+          );
+          const filesBudget = getContextBudget({
+            provider: fileProviderName,
+            model: fileModel,
+            maxTokens: effectiveFileMaxTokens,
+            prompt: filesPrompt,
+            sections: [
+              { label: 'Repository files', text: packedRepo },
+              { label: 'Documents (--with-doc)', text: docContent },
+            ],
+          });
+          for (const warning of checkModelCapabilities(fileProviderName, fileModel, {
+            tokenCount: filesBudget.promptTokens,
+          })) {
+            yield `Warning: ${warning}\n`;
+          }
 
-        if (options?.debug) {
-          yield 'AI response received.\n';
-          yield `Number of files identified: ${filePaths?.length || 0}\n`;
-          if (filePaths?.length > 0) {
-            yield 'First few identified files:\n';
-            yield `${filePaths.slice(0, 5).join('\n')}\n\n`;
-          } else {
-            yield 'No files were identified.\n\n';
+          if (options?.dryRun) {
+            yield formatDryRun(filesBudget, filesPrompt);
+            yield '\nThe plan prompt depends on the files the model identifies, so it is not shown.\n';
+            return;
           }
-        }
+          yield formatContextBudget(filesBudget);
 
-        // Track file provider token usage
-        if ('tokenUsage' in fileProvider && fileProvider.tokenUsage) {
-          options?.trackTelemetry?.({
-            filePromptTokens: fileProvider.tokenUsage.promptTokens,
-            fileCompletionTokens: fileProvider.tokenUsage.completionTokens,
-            fileProvider: fileProviderName,
-            fileModel: fileModel,
-          });
-        } else {
-          // Still track provider and model even if token usage isn't available
-          options?.trackTelemetry?.({
-            fileProvider: fileProviderName,
-            fileModel: fileModel,
-          });
+          yield `Asking ${fileProviderName} to identify relevant files using model: ${fileModel} with max tokens: ${effectiveFileMaxTokens}...\n`;
+
+          if (options?.debug) {
+            yield 'Provider configuration:\n';
+            yield `Provider: ${fileProviderName}\n`;
+            yield `Model: ${fileModel}\n`;
+            yield `Max tokens: ${options?.maxTokens || this.config.plan?.fileMaxTokens}\n\n`;
+          }
+
+          filePaths = await getRelevantFiles(
+            fileProvider,
+            filesPrompt,
+            fileModelOptions // Pass the fully typed object
+          );
+
+          if (options?.debug) {
+            yield 'AI response received.\n';
+            yield `Number of files identified: ${filePaths?.length || 0}\n`;
+            if (filePaths?.length > 0) {
+              yield 'First few identified files:\n';
+              yield `${filePaths.slice(0, 5).join('\n')}\n\n`;
+            } else {
+              yield 'No files were identified.\n\n';
+            }
+          }
+
+          // Track file provider token usage
+          if ('tokenUsage' in fileProvider && fileProvider.tokenUsage) {
+            options?.trackTelemetry?.({
+              filePromptTokens: fileProvider.tokenUsage.promptTokens,
+              fileCompletionTokens: fileProvider.tokenUsage.completionTokens,
+              fileProvider: fileProviderName,
+              fileModel: fileModel,
+            });
+          } else {
+            // Still track provider and model even if token usage isn't available
+            options?.trackTelemetry?.({
+              fileProvider: fileProviderName,
+              fileModel: fileModel,
+            });
+          }
+        } catch (error) {
+          if (error instanceof BudgetExceededError) {
+            throw error;
+          }
+          console.error('Error in getRelevantFiles', error);
+          throw new ProviderError('Failed to identify relevant files', error);
         }
-      } catch (error) {
-        console.error('Error in getRelevantFiles', error);
-        throw new ProviderError('Failed to identify relevant files', error);
       }
 
       if (filePaths.length === 0) {
@@ -356,23 +446,32 @@ export class PlanCommand implements Command {
       yield 'Extracting content from relevant files...\n';
       let filteredContent: string;
       try {
-        const tempFile = '.repomix-plan-filtered.txt';
-        const repomixDirectory = process.cwd();
-        const repomixConfig = await loadFileConfigWithOverrides(repomixDirectory, {
-          output: {
-            filePath: tempFile,
-            compress: false, // always uncompressed on plan
-          },
-          include: filePaths,
-        });
-        const filteredResult = await pack([repomixDirectory], repomixConfig);
-
-        if (options?.debug) {
-          yield 'Content extraction completed.\n';
-          yield `Extracted content size: ${filteredResult.totalTokens} tokens\n`;
-        }
+        if (repositories) {
+          const selected = await packRepositoryFiles(
+            repositories,
+            filePaths,
+            { output: { compress: false } },
+            options?.signal
+          );
+          filteredContent = formatRepositories(selected);
+        } else {
+          const filtered = await abortable(
+            packRepository(process.cwd(), {
+              output: {
+                compress: false, // always uncompressed on plan
+              },
+              include: filePaths,
+            }),
+            options?.signal
+          );
+
+          if (options?.debug) {
+            yield 'Content extraction completed.\n';
+            yield `Extracted content size: ${filtered.result.totalTokens} tokens\n`;
+          }
 
-        filteredContent = readFileSync(tempFile, 'utf-8');
+          filteredContent = filtered.text;
+        }
       } catch (error) {
         throw new FileError('Failed to extract content', error);
       }
@@ -390,19 +489,36 @@ export class PlanCommand implements Command {
         model: thinkingModel,
         maxTokens: effectiveThinkingMaxTokens,
         debug: options?.debug,
+        signal: options?.signal,
         reasoningEffort: options?.reasoningEffort ?? this.config.reasoningEffort,
         webSearch: options?.webSearch,
       };
 
+      const planPrompt = buildPlanPrompt(query, filteredContent, docContent);
+      const planBudget = getContextBudget({
+        provider: thinkingProviderName,
+        model: thinkingModel,
+        maxTokens: effectiveThinkingMaxTokens,
+        prompt: planPrompt,
+        sections: [
+          { label: 'Relevant files', text: filteredContent },
+          { label: 'Documents (--with-doc)', text: docContent },
+        ],
+      });
+      // Only reached with --retrieve, otherwise the dry run stops before the files are identified
+      if (options?.dryRun) {
+        yield formatDryRun(planBudget, planPrompt);
+        return;
+      }
+      yield formatContextBudget(planBudget);
+
       yield `Generating plan using ${thinkingProviderName} with max tokens: ${effectiveThinkingMaxTokens}...\n`;
-      let plan: string;
+      yield '\n--- Implementation Plan ---\n';
       try {
-        plan = await generatePlan(
+        yield* generatePlan(
           thinkingProvider,
-          query,
-          filteredContent,
-          thinkingModelOptions, // Pass the fully typed object
-          docContent
+          planPrompt,
+          thinkingModelOptions // Pass the fully typed object
         );
 
         // Track thinking provider token usage
@@ -421,12 +537,13 @@ export class PlanCommand implements Command {
           });
         }
       } catch (error) {
+        if (error instanceof BudgetExceededError) {
+          throw error;
+        }
         console.error('Error in generatePlan', error);
         throw new ProviderError('Failed to generate implementation plan', error);
       }
 
-      yield '\n--- Implementation Plan ---\n';
-      yield plan;
       yield '\n--- End Plan ---\n';
     } catch (error) {
       // console.error errors and then throw
@@ -467,26 +584,21 @@ function parseFileList(fileListText: string): string[] {
 }
 
 // Pure functions for plan operations
-async function getRelevantFiles(
-  provider: BaseModelProvider,
+function buildRelevantFilesPrompt(
   query: string,
   packedRepo: string,
-  options: ModelOptions, // Expect full ModelOptions
-  docContent: string
+  docContent: string,
+  repositories?: string
+): string {
+  return renderPrompt('plan-files', { query, docContent, files: packedRepo, repositories });
+}
+
+async function getRelevantFiles(
+  provider: BaseModelProvider,
+  prompt: string,
+  options: ModelOptions // Expect full ModelOptions
 ): Promise<string[]> {
   console.log('Getting relevant files using:', options.model);
-  const prompt = `
-User Query: ${query}
-
-${docContent ? `Additional Context Document:\\n${docContent}\\n\\n---\\n` : ''}
-
-Available Files (only include files from this list):
-${packedRepo}
-
-Based on the user query${docContent ? ' and the additional context document' : ''}, which files from the list above are most relevant to implement the request?
-Return ONLY a comma-separated list of the relevant file paths. Do not include any other text, explanation, or formatting.
-Example: src/index.ts,src/utils/helper.ts
-Relevant Files:`;
 
   // Override timeout specifically for this step
   const specificOptions: ModelOptions = {
@@ -499,30 +611,19 @@ Relevant Files:`;
   return parseFileList(response);
 }
 
+function buildPlanPrompt(query: string, filteredContent: string, docContent: string): string {
+  return renderPrompt('plan', { query, docContent, repoContext: filteredContent });
+}
+
 /**
- * Generates an implementation plan using the thinking provider.
+ * Generates an implementation plan using the thinking provider, yielding it as it streams in.
  */
-async function generatePlan(
+async function* generatePlan(
   provider: BaseModelProvider,
-  query: string,
-  filteredContent: string,
-  options: ModelOptions, // Expect full ModelOptions
-  docContent: string
-): Promise<string> {
+  prompt: string,
+  options: ModelOptions // Expect full ModelOptions
+): CommandGenerator {
   console.log('Generating plan using:', options.model);
-  const prompt = `
-User Query: ${query}
-
-${docContent ? `Additional Context Document:\\n${docContent}\\n\\n---\\n` : ''}
-
-Relevant Code Context:
-\`\`\`
-${filteredContent}
-\`\`\`
-
-Based *only* on the user query${docContent ? ', the additional context document,' : ''} and the provided relevant code context, generate a detailed, step-by-step implementation plan to address the user query.
-Focus on actionable steps and code modifications where appropriate.
-Implementation Plan:`;
 
   // Override timeout specifically for this step
   const specificOptions: ModelOptions = {
@@ -530,7 +631,5 @@ Implementation Plan:`;
     timeout: TEN_MINUTES,
   };
 
-  // Use executePrompt and ensure options includes the required systemPrompt
-  const plan = await provider.executePrompt(prompt, specificOptions);
-  return plan;
+  yield* executePromptStreaming(provider, prompt, specificOptions);
 }
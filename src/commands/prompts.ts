@@ -0,0 +1,74 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { Command, CommandGenerator, CommandOptions } from '../types';
+import { PROMPT_TEMPLATES } from '../prompts/defaults';
+import {
+  getPromptOverridePath,
+  getPromptTemplate,
+  PROJECT_PROMPTS_DIR,
+} from '../prompts/templates';
+
+export class PromptsCommand implements Command {
+  async *execute(query: string, _options: CommandOptions): CommandGenerator {
+    const [subcommand, name] = query.trim().split(/\s+/);
+
+    switch (subcommand) {
+      case 'list': {
+        const width = Math.max(...PROMPT_TEMPLATES.map((template) => template.name.length));
+        for (const template of PROMPT_TEMPLATES) {
+          const overridePath = getPromptOverridePath(template.name);
+          const source = overridePath ? `  (overridden by ${overridePath})` : '';
+          yield `${template.name.padEnd(width)}  ${template.description}${source}\n`;
+        }
+        yield `\nOverride a template by creating <name>.md in ${PROJECT_PROMPTS_DIR}, or copy the built-in one there with: vibe-tools prompts eject <name>\n`;
+        return;
+      }
+      case 'show': {
+        if (!name) {
+          yield 'Please specify the template to show: vibe-tools prompts show <name>\n';
+          return;
+        }
+        const template = getPromptTemplate(name);
+        if (!template) {
+          yield `Prompt template not found: ${name}. Run vibe-tools prompts list to see the templates.\n`;
+          return;
+        }
+        const overridePath = getPromptOverridePath(name);
+        yield `# ${template.name}: ${template.description}\n\n`;
+        yield `Source: ${overridePath ?? 'built-in'}\n`;
+        yield 'Variables:\n';
+        for (const [variable, description] of Object.entries(template.variables)) {
+          yield `  {{${variable}}}  ${description}\n`;
+        }
+        yield `\n${overridePath ? readFileSync(overridePath, 'utf-8') : `${template.template}\n`}`;
+        return;
+      }
+      case 'eject': {
+        if (!name) {
+          yield 'Please specify the template to eject, or all: vibe-tools prompts eject <name>\n';
+          return;
+        }
+        const templates =
+          name === 'all' ? PROMPT_TEMPLATES : PROMPT_TEMPLATES.filter((t) => t.name === name);
+        if (templates.length === 0) {
+          yield `Prompt template not found: ${name}. Run vibe-tools prompts list to see the templates.\n`;
+          return;
+        }
+        mkdirSync(PROJECT_PROMPTS_DIR, { recursive: true });
+        for (const template of templates) {
+          const path = join(PROJECT_PROMPTS_DIR, `${template.name}.md`);
+          // Never overwrite an edited template
+          if (existsSync(path)) {
+            yield `Skipped ${path}, it already exists\n`;
+            continue;
+          }
+          writeFileSync(path, `${template.template}\n`);
+          yield `Wrote ${path}\n`;
+        }
+        return;
+      }
+      default:
+        yield 'Please specify a subcommand: list, show <name> or eject <name|all>\n';
+    }
+  }
+}
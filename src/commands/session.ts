@@ -0,0 +1,57 @@
+import type { Command, CommandGenerator, CommandOptions } from '../types';
+import { deleteSession, listSessions, loadSession, SESSIONS_DIR } from '../utils/sessions';
+
+export class SessionCommand implements Command {
+  async *execute(query: string, _options: CommandOptions): CommandGenerator {
+    const [subcommand, name] = query.trim().split(/\s+/);
+
+    switch (subcommand) {
+      case 'list': {
+        const sessions = listSessions();
+        if (sessions.length === 0) {
+          yield `No sessions found in ${SESSIONS_DIR}\n`;
+          return;
+        }
+        for (const session of sessions) {
+          const turns = session.messages.filter((message) => message.role === 'user').length;
+          const model = session.provider ? ` ${session.provider}/${session.model}` : '';
+          yield `${session.name}  ${session.command}${model}  ${turns} question${turns === 1 ? '' : 's'}  last used ${session.updatedAt}\n`;
+        }
+        return;
+      }
+      case 'show': {
+        if (!name) {
+          yield 'Please specify the session to show: vibe-tools session show <name>\n';
+          return;
+        }
+        const session = loadSession(name);
+        if (!session) {
+          yield `Session not found: ${name}\n`;
+          return;
+        }
+        yield `# Session ${session.name}\n\n`;
+        yield `Command: ${session.command}\n`;
+        if (session.provider) {
+          yield `Model: ${session.provider}/${session.model}\n`;
+        }
+        if (session.repoContext) {
+          yield `Packed repository: ${session.repoContext.source} (${session.repoContext.tokenCount} tokens, packed ${session.repoContext.packedAt})\n`;
+        }
+        for (const message of session.messages) {
+          yield `\n## ${message.role === 'user' ? 'Question' : 'Answer'} (${message.timestamp})\n\n${message.content}\n`;
+        }
+        return;
+      }
+      case 'delete': {
+        if (!name) {
+          yield 'Please specify the session to delete: vibe-tools session delete <name>\n';
+          return;
+        }
+        yield deleteSession(name) ? `Deleted session ${name}\n` : `Session not found: ${name}\n`;
+        return;
+      }
+      default:
+        yield 'Please specify a subcommand: list, show <name> or delete <name>\n';
+    }
+  }
+}
@@ -72,7 +72,9 @@ export function formatTime(seconds: number): string {
 }
 
 /**
- * Creates and configures a PQueue instance for parallel execution with progress reporting
+ * Creates and configures a PQueue instance for parallel execution with progress reporting.
+ * The model calls made by the scenarios are additionally throttled per provider by the shared
+ * rate limit scheduler, so a high --parallel value does not run into provider rate limits.
  */
 export function createExecutionQueue(
   options: TestOptions,
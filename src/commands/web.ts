@@ -2,31 +2,10 @@ import type { Command, CommandGenerator, CommandOptions, Provider } from '../typ
 import type { Config } from '../types.ts';
 import { defaultMaxTokens, loadConfig, loadEnv } from '../config.ts';
 import { createProvider } from '../providers/base';
-import { ProviderError } from '../errors';
-import {
-  getAllProviders,
-  getNextAvailableProvider,
-  getDefaultModel,
-} from '../utils/providerAvailability';
-
-const DEFAULT_WEB_MODELS: Record<string, string> = {
-  gemini: 'gemini-2.5-pro',
-  openai: 'NO WEB SUPPORT',
-  perplexity: 'sonar-pro',
-  openrouter: 'google/gemini-2.5-pro',
-  modelbox: 'google/gemini-2.5-pro',
-  xai: 'NO WEB SUPPORT',
-  anthropic: 'NO WEB SUPPORT',
-  apizh: 'gemini-2.5-pro-exp-03-25',
-  'apizh-web': 'gemini-2.5-pro-exp-03-25',
-  'apizh-coding': 'NO WEB SUPPORT',
-  'apizh-chinese': 'NO WEB SUPPORT',
-  'apizh-analysis': 'NO WEB SUPPORT',
-  'apizh-creative': 'NO WEB SUPPORT',
-  'apizh-math': 'NO WEB SUPPORT',
-  'apizh-reasoning': 'NO WEB SUPPORT',
-  'apizh-cost': 'NO WEB SUPPORT',
-};
+import { BudgetExceededError, ProviderError } from '../errors';
+import { getAllProviders, getNextAvailableProvider } from '../utils/providerAvailability';
+import { getDefaultModel } from '../providers/modelRegistry';
+import { renderPrompt } from '../prompts/templates';
 
 export class WebCommand implements Command {
   private config: Config;
@@ -60,6 +39,12 @@ export class WebCommand implements Command {
           yield* this.tryProvider(currentProvider, query, options);
           return; // If successful, we're done
         } catch (error) {
+          // After Ctrl-C or --timeout, don't retry on the other providers
+          options?.signal?.throwIfAborted();
+          // Other providers would see the same prompt, so don't fall back past the budget
+          if (error instanceof BudgetExceededError) {
+            throw error;
+          }
           console.error(
             `Provider ${currentProvider} failed:`,
             error instanceof Error ? error.message : error
@@ -98,8 +83,7 @@ export class WebCommand implements Command {
       options?.model ||
       this.config.web?.model ||
       (this.config as Record<string, any>)[provider]?.model ||
-      DEFAULT_WEB_MODELS[provider] ||
-      getDefaultModel(provider);
+      getDefaultModel(provider, 'web');
 
     // Check web search capability
     const SAFETY_OVERRIDE = process.env.OVERRIDE_SAFETY_CHECKS?.toLowerCase();
@@ -138,9 +122,9 @@ export class WebCommand implements Command {
       model,
       maxTokens,
       debug: options.debug,
+      signal: options.signal,
       webSearch: true,
-      systemPrompt:
-        "You are an expert software engineering assistant. Follow user instructions exactly and satisfy the user's request. Always Search the web for the latest information, even if you think you know the answer.",
+      systemPrompt: renderPrompt('web-system', { query }),
     });
 
     yield response;
@@ -2,6 +2,7 @@ import type { Config } from './types';
 
 // 21000 is a higher default that supports modern models with larger context windows
 // while still being supported by most providers. Note the limitation of 21000 tokens comes from Anthropic who require streaming to go much higher than this.
+// The Anthropic provider switches to streaming automatically when maxTokens exceeds this value.
 export const defaultMaxTokens = 21000;
 export const defaultConfig: Config = {
   ide: 'cursor', // Default IDE
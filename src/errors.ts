@@ -1,3 +1,5 @@
+import { getModelSuggestions } from './providers/modelRegistry';
+
 // Base error class for all vibe-tools errors
 export class CursorToolsError extends Error {
   constructor(
@@ -50,32 +52,9 @@ export class ModelNotFoundError extends ProviderError {
   constructor(provider: string) {
     let message = `No model specified for ${provider}.`;
 
-    // Add model suggestions based on provider
-    switch (provider) {
-      case 'openai':
-        message += '\nSuggested models:\n- gpt-4o\n- o3';
-        break;
-      case 'anthropic':
-        message += '\nSuggested models:\n- claude-opus-4-20250514\n- claude-sonnet-4-20250514';
-        break;
-      case 'gemini':
-        message +=
-          '\nSuggested models:\n- gemini-2.5-flash\n- gemini-2.5-pro\n- gemini-2.5-flash-lite-preview-06-17';
-        break;
-      case 'perplexity':
-        message += '\nSuggested models:\n- sonar-pro\n- sonar-reasoning-pro';
-        break;
-      case 'openrouter':
-        message +=
-          '\nSuggested models:\n- perplexity/sonar\n- openai/gpt-4o\n- anthropic/claude-sonnet-4\n- deepseek/deepseek-r1:free\n- google/gemini-2.5-pro\n- google/gemini-2.5-flash-lite-preview-06-17\n- mistral/mistral-large\n- groq/llama2-70b';
-        break;
-      case 'modelbox':
-        message +=
-          '\nSuggested models:\n- perplexity/sonar-pro\n- openai/gpt-4o\n- anthropic/claude-sonnet-4\n- google/gemini-2.5-flash-lite-preview-06-17';
-        break;
-      case 'xai':
-        message += '\nSuggested models:\n- grok-3-latest\n- grok-3-mini-latest';
-        break;
+    const suggestions = getModelSuggestions(provider);
+    if (suggestions.length > 0) {
+      message += `\nSuggested models:\n${suggestions.map((model) => `- ${model}`).join('\n')}`;
     }
 
     message += '\nUse --model to specify a model.';
@@ -103,6 +82,35 @@ export class GeminiRecitationError extends ProviderError {
   }
 }
 
+// Raised before a prompt is sent when its estimated cost would exceed the configured budget
+export class BudgetExceededError extends CursorToolsError {
+  constructor(model: string, estimatedCost: number, spentCost: number, maxCost: number) {
+    super(
+      `Sending this prompt to ${model} would cost an estimated $${estimatedCost.toFixed(4)}` +
+        (spentCost > 0 ? ` on top of $${spentCost.toFixed(4)} already spent` : '') +
+        `, exceeding the budget of $${maxCost.toFixed(2)}. Raise the limit with --max-cost or reduce the context.`,
+      { model, estimatedCost, spentCost, maxCost }
+    );
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// Raised when a command is interrupted with Ctrl-C or runs longer than --timeout
+export class CancelledError extends CursorToolsError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+// Session-related errors
+export class SessionError extends CursorToolsError {
+  constructor(message: string, details?: unknown) {
+    super(message, details);
+    this.name = 'SessionError';
+  }
+}
+
 // File-related errors
 export class FileError extends CursorToolsError {
   constructor(message: string, details?: unknown) {
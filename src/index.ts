@@ -12,12 +12,17 @@ import {
 import { checkPackageVersion, getCurrentVersion } from './utils/versionUtils';
 import { shouldRunNonInteractive } from './utils/installUtils';
 import type { CommandOptions, Provider } from './types';
-import { reasoningEffortSchema } from './types';
+import { reasoningEffortSchema, repoStrategySchema } from './types';
 import { promises as fsPromises } from 'node:fs';
 import util from 'node:util';
 import consola from 'consola';
 import { spawn } from 'node:child_process';
 import { startCommand, updateCommandState, recordError, endCommand } from './telemetry/index';
+import { disableResponseCache } from './providers/responseCache';
+import { formatUsageFooter, setCostLimit } from './providers/costAccounting';
+import { readStdin } from './utils/attachments';
+import { DEFAULT_HISTORY_COMMITS } from './utils/gitHistory';
+import { CancelledError } from './errors';
 // Get the directory name of the current module
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -93,16 +98,29 @@ type CLIStringOption =
   // Core options
   | 'model'
   | 'provider'
+  | 'models'
+  | 'judge'
   | 'reasoningEffort'
   // Output options
   | 'output'
   | 'saveTo'
   | 'json'
+  | 'schema'
   // Context options
   | 'hint'
   | 'fromGithub'
+  | 'fromGit'
+  | 'repoPath'
   | 'subdir'
+  | 'strategy'
   | 'withDoc'
+  | 'withBlame'
+  | 'session'
+  | 'image'
+  | 'file'
+  | 'include'
+  | 'exclude'
+  | 'files'
   // Browser options
   | 'url'
   | 'screenshot'
@@ -129,6 +147,11 @@ type CLIStringOption =
 type CLINumberOption =
   // Core options
   | 'maxTokens'
+  | 'maxCost'
+  // Context options
+  | 'retrieve'
+  | 'maxRepoTokens'
+  | 'withHistory'
   // Browser options
   | 'timeout'
   | 'connectTo'
@@ -138,6 +161,8 @@ type CLINumberOption =
 type CLIBooleanOption =
   // Core options
   | 'debug'
+  | 'cache'
+  | 'dryRun'
   // Output options
   | 'quiet'
   // Browser options
@@ -149,15 +174,23 @@ type CLIBooleanOption =
   | 'webSearch'
   | 'withDiff'
   | 'copyDefaultProfile'
-  | 'lite';
+  | 'lite'
+  | 'continue'
+  | 'cite'
+  | 'compress';
 
 // Main CLI options interface
 interface CLIOptions {
   // Core options
   model?: string;
   provider?: string;
+  models?: string;
+  judge?: string;
   maxTokens?: number;
+  maxCost?: number;
   debug?: boolean;
+  cache?: boolean;
+  dryRun?: boolean;
   reasoningEffort?: string;
   webSearch?: boolean;
 
@@ -166,12 +199,29 @@ interface CLIOptions {
   saveTo?: string;
   quiet?: boolean;
   json?: boolean | string;
+  schema?: string;
 
   // Context options
   hint?: string;
   fromGithub?: string;
+  fromGit?: string;
+  repoPath?: string[];
   subdir?: string;
+  strategy?: string;
+  retrieve?: number;
+  maxRepoTokens?: number;
+  cite?: boolean;
+  compress?: boolean;
   withDoc?: string[];
+  withHistory?: number;
+  withBlame?: string[];
+  session?: string;
+  continue?: boolean;
+  image?: string[];
+  file?: string[];
+  include?: string[];
+  exclude?: string[];
+  files?: string;
 
   // Browser options
   url?: string;
@@ -219,8 +269,13 @@ const OPTION_KEYS: Record<string, CLIOptionKey> = {
   // Core options
   model: 'model',
   provider: 'provider',
+  models: 'models',
+  judge: 'judge',
   maxtokens: 'maxTokens',
+  maxcost: 'maxCost',
   debug: 'debug',
+  cache: 'cache',
+  dryrun: 'dryRun',
   reasoningeffort: 'reasoningEffort',
 
   // Output options
@@ -228,12 +283,29 @@ const OPTION_KEYS: Record<string, CLIOptionKey> = {
   saveto: 'saveTo',
   quiet: 'quiet',
   json: 'json',
+  schema: 'schema',
 
   // Context options
   hint: 'hint',
   fromgithub: 'fromGithub',
+  fromgit: 'fromGit',
+  repopath: 'repoPath',
   subdir: 'subdir',
+  strategy: 'strategy',
+  retrieve: 'retrieve',
+  maxrepotokens: 'maxRepoTokens',
+  cite: 'cite',
+  compress: 'compress',
   withdoc: 'withDoc',
+  withhistory: 'withHistory',
+  withblame: 'withBlame',
+  image: 'image',
+  file: 'file',
+  include: 'include',
+  exclude: 'exclude',
+  files: 'files',
+  session: 'session',
+  continue: 'continue',
 
   // Browser options
   url: 'url',
@@ -278,6 +350,8 @@ const OPTION_KEYS: Record<string, CLIOptionKey> = {
 // Set of option keys that are boolean flags
 const BOOLEAN_OPTIONS = new Set<CLIBooleanOption>([
   'debug',
+  'cache',
+  'dryRun',
   'quiet',
   'console',
   'html',
@@ -288,10 +362,25 @@ const BOOLEAN_OPTIONS = new Set<CLIBooleanOption>([
   'withDiff',
   'copyDefaultProfile',
   'lite',
+  'continue',
+  'cite',
+  'compress',
 ]);
 
+// Commands that use --timeout for their own steps instead of as a deadline for the whole command
+const COMMANDS_WITH_OWN_TIMEOUT = new Set(['browser', 'test']);
+
 // Set of option keys that require numeric values
-const NUMERIC_OPTIONS = new Set<CLINumberOption>(['maxTokens', 'timeout', 'connectTo', 'parallel']);
+const NUMERIC_OPTIONS = new Set<CLINumberOption>([
+  'maxTokens',
+  'maxCost',
+  'retrieve',
+  'maxRepoTokens',
+  'withHistory',
+  'timeout',
+  'connectTo',
+  'parallel',
+]);
 
 // --- CORRECTED HELPER FUNCTION for Rules Check ---
 async function performRulesCheck(): Promise<{ ide: string; path: string; reason: string }[]> {
@@ -364,6 +453,14 @@ async function performRulesCheck(): Promise<{ ide: string; path: string; reason:
   return filesToUpdate; // Return the list
 }
 
+// Printed to stderr so the footer never ends up in piped output or --save-to files
+function printUsageFooter(): void {
+  const footer = formatUsageFooter();
+  if (footer) {
+    console.error(footer);
+  }
+}
+
 async function main() {
   const originalArgs = process.argv.slice(2); // Store original args
   const [command, ...args] = originalArgs;
@@ -391,7 +488,11 @@ async function main() {
   const options: CLIOptions = {
     // String options
     model: undefined,
+    models: undefined,
+    judge: undefined,
     fromGithub: undefined,
+    fromGit: undefined,
+    repoPath: undefined,
     output: undefined,
     saveTo: undefined,
     hint: undefined,
@@ -421,13 +522,26 @@ async function main() {
     headless: undefined,
     text: undefined,
     debug: undefined,
+    dryRun: undefined,
     quiet: undefined,
     json: undefined,
     copyDefaultProfile: undefined,
     lite: undefined,
     reasoningEffort: undefined,
     subdir: undefined,
+    strategy: undefined,
+    retrieve: undefined,
+    maxRepoTokens: undefined,
+    cite: undefined,
+    compress: undefined,
     withDoc: undefined,
+    withHistory: undefined,
+    withBlame: undefined,
+    image: undefined,
+    file: undefined,
+    include: undefined,
+    exclude: undefined,
+    files: undefined,
     // Git diff options
     withDiff: undefined,
     base: undefined,
@@ -477,8 +591,13 @@ async function main() {
             value = 'true'; // Default to true if no explicit value
           }
         } else if (!isNoPrefix) {
-          // For non-boolean options, look for a value
-          if (i + 1 < args.length && !args[i + 1].startsWith('--')) {
+          // For non-boolean options, look for a value. The count of --with-history is optional, so
+          // only a number is taken as its value
+          if (
+            i + 1 < args.length &&
+            !args[i + 1].startsWith('--') &&
+            (optionKey !== 'withHistory' || /^\d+$/.test(args[i + 1]))
+          ) {
             value = args[i + 1];
             i++; // Skip the next argument since we've used it as the value
           }
@@ -512,22 +631,47 @@ async function main() {
         continue;
       }
 
+      if (optionKey === 'withHistory' && value === undefined) {
+        options.withHistory = DEFAULT_HISTORY_COMMITS;
+        continue;
+      }
+
       if (value === undefined && !BOOLEAN_OPTIONS.has(optionKey as CLIBooleanOption)) {
         console.error(`Error: No value provided for option '--${key}'`);
         process.exit(1);
       }
 
       if (NUMERIC_OPTIONS.has(optionKey as CLINumberOption)) {
-        const num = Number.parseInt(value || '', 10);
+        // maxCost is a dollar amount, all other numeric options are whole numbers
+        const num =
+          optionKey === 'maxCost'
+            ? Number.parseFloat(value || '')
+            : Number.parseInt(value || '', 10);
         if (Number.isNaN(num)) {
           console.error(`Error: ${optionKey} must be a number`);
           process.exit(1);
         }
+        if (optionKey === 'maxCost' && num <= 0) {
+          console.error(`Error: maxCost must be a positive number`);
+          process.exit(1);
+        }
         // Special validation for parallel option
         if (optionKey === 'parallel' && num < 1) {
           console.error(`Error: parallel must be a positive number`);
           process.exit(1);
         }
+        if (optionKey === 'retrieve' && num < 1) {
+          console.error(`Error: retrieve must be a positive number of files`);
+          process.exit(1);
+        }
+        if (optionKey === 'withHistory' && num < 1) {
+          console.error(`Error: withHistory must be a positive number of commits`);
+          process.exit(1);
+        }
+        if (optionKey === 'maxRepoTokens' && num < 1) {
+          console.error(`Error: maxRepoTokens must be a positive number of tokens`);
+          process.exit(1);
+        }
         options[optionKey as CLINumberOption] = num;
         continue;
       }
@@ -536,11 +680,20 @@ async function main() {
         options[optionKey as CLIBooleanOption] = value === 'true';
       } else if (value !== undefined && optionKey) {
         const stringOptionKey = optionKey as CLIStringOption;
-        if (stringOptionKey === 'withDoc') {
-          if (!options.withDoc) {
-            options.withDoc = [];
+        if (
+          stringOptionKey === 'withDoc' ||
+          stringOptionKey === 'withBlame' ||
+          stringOptionKey === 'image' ||
+          stringOptionKey === 'file' ||
+          stringOptionKey === 'include' ||
+          stringOptionKey === 'exclude' ||
+          stringOptionKey === 'repoPath'
+        ) {
+          // Repeatable options collect every value
+          if (!options[stringOptionKey]) {
+            options[stringOptionKey] = [];
           }
-          options.withDoc.push(value);
+          options[stringOptionKey].push(value);
         } else {
           options[stringOptionKey] = value;
         }
@@ -550,7 +703,15 @@ async function main() {
     }
   }
 
-  const query = command === 'install' && queryArgs.length === 0 ? '.' : queryArgs.join(' ');
+  let query = command === 'install' && queryArgs.length === 0 ? '.' : queryArgs.join(' ');
+  // A query of `-` is read from stdin, e.g. `git diff | vibe-tools ask -`
+  if (query === '-') {
+    if (process.stdin.isTTY) {
+      consola.error('Error: A query of "-" is read from stdin, pipe the query into vibe-tools');
+      process.exit(1);
+    }
+    query = (await readStdin()).trim();
+  }
 
   if (!command) {
     consola.error('Error: No command provided.');
@@ -559,8 +720,8 @@ async function main() {
   }
 
   if (!query) {
-    if (command === 'doc') {
-      // no query for doc command is ok
+    if (command === 'doc' || command === 'models') {
+      // no query for doc command is ok, models lists every model without one
     } else {
       consola.error(`Error: No query provided for command: ${command}`);
       process.exit(1);
@@ -757,6 +918,25 @@ async function main() {
 
   // Only proceed if the update process didn't take over AND exit
   if (shouldContinueExecution) {
+    // Aborted on Ctrl-C or when --timeout elapses, commands pass it on to cancel their work
+    const cancellation = new AbortController();
+    let interrupted = false;
+    process.on('SIGINT', () => {
+      if (cancellation.signal.aborted) {
+        // A second Ctrl-C doesn't wait for browsers and servers to shut down
+        process.exit(130);
+      }
+      interrupted = true;
+      console.error('\nCancelling, press Ctrl-C again to exit immediately...');
+      cancellation.abort(new CancelledError('Cancelled'));
+    });
+    if (options.timeout && !COMMANDS_WITH_OWN_TIMEOUT.has(command)) {
+      setTimeout(
+        () => cancellation.abort(new CancelledError(`Timed out after ${options.timeout}ms`)),
+        options.timeout
+      ).unref();
+    }
+
     try {
       // Track command start
       startCommand(command, options);
@@ -786,6 +966,15 @@ async function main() {
         }
       }
 
+      // --no-cache bypasses the on-disk response cache for every provider created by this command
+      if (options.cache === false) {
+        disableResponseCache();
+      }
+
+      if (options.maxCost !== undefined) {
+        setCostLimit(options.maxCost);
+      }
+
       // Execute the command and handle output
       const commandOptions: CommandOptions = {
         ...options,
@@ -796,6 +985,8 @@ async function main() {
         reasoningEffort: options.reasoningEffort
           ? reasoningEffortSchema.parse(options.reasoningEffort)
           : undefined,
+        strategy: options.strategy ? repoStrategySchema.parse(options.strategy) : undefined,
+        signal: cancellation.signal,
         trackTelemetry: (data) => {
           updateCommandState(data);
         },
@@ -829,10 +1020,15 @@ async function main() {
         }
         await writePromise;
       }
+      // Commands that report errors as output would otherwise end a cancelled run successfully
+      cancellation.signal.throwIfAborted();
+
       // this should flush stderr and stdout and write a newline
       console.log('');
       console.error('');
 
+      printUsageFooter();
+
       if (options.saveTo) {
         console.log(`Output saved to: ${options.saveTo}`);
       }
@@ -844,6 +1040,9 @@ async function main() {
       recordError(error);
       await endCommand(options.debug);
 
+      // Calls made before the failure were still billed
+      printUsageFooter();
+
       // Use the formatUserMessage method for CursorToolsError instances to display provider errors
       if (
         error &&
@@ -855,7 +1054,7 @@ async function main() {
       } else {
         console.error('Error:', error instanceof Error ? error.message : 'Unknown error');
       }
-      process.exit(1);
+      process.exit(interrupted ? 130 : 1);
     }
   }
 }
@@ -0,0 +1,86 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { FileError } from '../errors';
+import { PROMPT_TEMPLATES, type PromptTemplate } from './defaults';
+
+// Project templates override those in the home directory, like vibe-tools.config.json
+export const PROJECT_PROMPTS_DIR = join(process.cwd(), '.vibe-tools', 'prompts');
+export const HOME_PROMPTS_DIR = join(homedir(), '.vibe-tools', 'prompts');
+
+export type PromptVariables = Record<string, string | boolean | undefined>;
+
+export function getPromptTemplate(name: string): PromptTemplate | undefined {
+  return PROMPT_TEMPLATES.find((template) => template.name === name);
+}
+
+/**
+ * Path of the file overriding a built-in template, undefined when the built-in one is used.
+ */
+export function getPromptOverridePath(name: string): string | undefined {
+  return [PROJECT_PROMPTS_DIR, HOME_PROMPTS_DIR]
+    .map((dir) => join(dir, `${name}.md`))
+    .find((path) => existsSync(path));
+}
+
+/**
+ * Renders a template. `{{name}}` is replaced by the variable's value, `{{#name}}...{{/name}}` is
+ * kept only when the variable is set and not empty, `{{^name}}...{{/name}}` only when it is not.
+ * Values are inserted as they are, so template syntax inside a value (such as a repository that
+ * contains `{{query}}`) is never expanded.
+ */
+export function renderTemplate(template: string, variables: PromptVariables): string {
+  const sectionPattern = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+  let text = template;
+  // Sections nested in a kept section are resolved on the next pass
+  for (let previous = ''; previous !== text; ) {
+    previous = text;
+    text = text.replace(sectionPattern, (_match, kind: string, name: string, body: string) =>
+      !!variables[name] === (kind === '#') ? body : ''
+    );
+  }
+  return text.replace(/\{\{(\w+)\}\}/g, (_match, name: string) => {
+    const value = variables[name];
+    return value === undefined || value === false ? '' : String(value);
+  });
+}
+
+/**
+ * Variables a template uses that the prompt doesn't provide, usually a typo in an override.
+ */
+export function getUnknownVariables(template: string, variables: string[]): string[] {
+  const used = [...template.matchAll(/\{\{[#^/]?(\w+)\}\}/g)].map((match) => match[1]);
+  return [...new Set(used)].filter((name) => !variables.includes(name));
+}
+
+/**
+ * Renders the named prompt, from .vibe-tools/prompts/<name>.md when that file exists and from the
+ * built-in template otherwise.
+ */
+export function renderPrompt(name: string, variables: PromptVariables): string {
+  const builtin = getPromptTemplate(name);
+  if (!builtin) {
+    throw new Error(`Unknown prompt template: ${name}`);
+  }
+
+  const overridePath = getPromptOverridePath(name);
+  if (!overridePath) {
+    return renderTemplate(builtin.template, variables);
+  }
+
+  let template: string;
+  try {
+    template = readFileSync(overridePath, 'utf-8');
+  } catch (error) {
+    throw new FileError(`Cannot read prompt template ${overridePath}`, error);
+  }
+  const unknown = getUnknownVariables(template, Object.keys(builtin.variables));
+  if (unknown.length > 0) {
+    console.error(
+      `Warning: ${overridePath} uses unknown variables ${unknown.map((v) => `{{${v}}}`).join(', ')}, they are left empty. ` +
+        `Available variables: ${Object.keys(builtin.variables).join(', ')}`
+    );
+  }
+  // Editors add a final newline to files, the built-in templates don't end with one
+  return renderTemplate(template.replace(/\r?\n$/, ''), variables);
+}
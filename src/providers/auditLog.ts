@@ -0,0 +1,253 @@
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  statSync,
+} from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type { Provider } from '../types';
+import { loadConfig } from '../config';
+import type { BaseModelProvider, ModelOptions } from './base';
+
+export const AUDIT_LOG_DIR = join(homedir(), '.vibe-tools', 'logs');
+const AUDIT_LOG_FILE = 'audit.jsonl';
+
+const DEFAULT_MAX_SIZE_MB = 10;
+const DEFAULT_MAX_FILES = 5;
+const DEFAULT_MAX_CONTENT_LENGTH = 2000;
+
+export interface AuditLogEntry {
+  timestamp: string;
+  provider: Provider;
+  model: string;
+  cwd: string; // Directory the command ran in, tells which project the prompt came from
+  latencyMs: number;
+  promptTokens?: number;
+  completionTokens?: number;
+  promptLength: number; // Characters, before truncation
+  prompt: string;
+  systemPrompt?: string;
+  images?: string[]; // Paths of attached images, their content is not logged
+  webSearch?: boolean;
+  response?: string;
+  error?: string;
+}
+
+const SECRET_NAME_PATTERN =
+  '[A-Za-z0-9_]*(?:KEY|TOKEN|SECRET|PASSWORD|PASSWD|CREDENTIALS?)[A-Za-z0-9_]*';
+
+// Well known API key formats, matched anywhere in the text
+const SECRET_VALUE_PATTERNS = [
+  /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g, // OpenAI, Anthropic
+  /\bAIza[0-9A-Za-z_-]{35}\b/g, // Google
+  /\b(?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36}\b/g, // GitHub tokens
+  /\bgithub_pat_[A-Za-z0-9_]{22,}/g,
+  /\b(?:xai|pplx)-[A-Za-z0-9]{20,}/g, // xAI, Perplexity
+  /\bAKIA[0-9A-Z]{16}\b/g, // AWS access key IDs
+  /\bBearer\s+[A-Za-z0-9._~+/=-]{16,}/g,
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+];
+
+// `NAME=value` and `"name": "value"` assignments to secret-looking names, as in .env and config files
+const SECRET_ASSIGNMENT_PATTERNS = [
+  new RegExp(`\\b(${SECRET_NAME_PATTERN})(\\s*[=:]\\s*)(?!\\[REDACTED\\])([^\\s"'\`,;]+)`, 'gi'),
+  new RegExp(`(["'])(${SECRET_NAME_PATTERN})\\1(\\s*:\\s*)(["'])(?!\\[REDACTED\\])[^"']+\\4`, 'gi'),
+];
+
+function getAuditSettings() {
+  const auditConfig = loadConfig().audit;
+  return {
+    enabled: auditConfig?.enabled !== false,
+    maxSizeBytes: (auditConfig?.maxSizeMB ?? DEFAULT_MAX_SIZE_MB) * 1024 * 1024,
+    maxFiles: Math.max(1, auditConfig?.maxFiles ?? DEFAULT_MAX_FILES),
+    maxContentLength: auditConfig?.maxContentLength ?? DEFAULT_MAX_CONTENT_LENGTH,
+  };
+}
+
+// Values of secret-looking environment variables, such as the API keys loaded from .env files
+function getSecretEnvValues(): string[] {
+  const secretName = new RegExp(`^${SECRET_NAME_PATTERN}$`, 'i');
+  return Object.entries(process.env)
+    .filter(([name, value]) => secretName.test(name) && value && value.length >= 8)
+    .map(([, value]) => value as string);
+}
+
+/**
+ * Replaces API keys and values assigned to secret-looking names (`OPENAI_API_KEY=...`,
+ * `"password": "..."`) with [REDACTED]. Values of secret environment variables are redacted
+ * wherever they appear.
+ */
+export function redactSecrets(text: string): string {
+  let redacted = text;
+  for (const value of getSecretEnvValues()) {
+    redacted = redacted.split(value).join('[REDACTED]');
+  }
+  for (const pattern of SECRET_VALUE_PATTERNS) {
+    redacted = redacted.replace(pattern, '[REDACTED]');
+  }
+  redacted = redacted.replace(SECRET_ASSIGNMENT_PATTERNS[0], '$1$2[REDACTED]');
+  redacted = redacted.replace(SECRET_ASSIGNMENT_PATTERNS[1], '$1$2$1$3$4[REDACTED]$4');
+  return redacted;
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  return `${text.slice(0, maxLength)}... (${text.length - maxLength} more characters)`;
+}
+
+// Rotated logs are named audit.<n>.jsonl, audit.1.jsonl being the most recent
+function getRotatedPath(index: number): string {
+  return join(AUDIT_LOG_DIR, `audit.${index}.jsonl`);
+}
+
+function rotateIfNeeded(path: string, maxSizeBytes: number, maxFiles: number): void {
+  if (!existsSync(path) || statSync(path).size < maxSizeBytes) {
+    return;
+  }
+  rmSync(getRotatedPath(maxFiles - 1), { force: true });
+  for (let index = maxFiles - 2; index >= 1; index--) {
+    if (existsSync(getRotatedPath(index))) {
+      renameSync(getRotatedPath(index), getRotatedPath(index + 1));
+    }
+  }
+  if (maxFiles > 1) {
+    renameSync(path, getRotatedPath(1));
+  } else {
+    rmSync(path, { force: true });
+  }
+}
+
+function writeEntry(entry: AuditLogEntry): void {
+  const settings = getAuditSettings();
+  try {
+    mkdirSync(AUDIT_LOG_DIR, { recursive: true });
+    const path = join(AUDIT_LOG_DIR, AUDIT_LOG_FILE);
+    rotateIfNeeded(path, settings.maxSizeBytes, settings.maxFiles);
+    appendFileSync(path, `${JSON.stringify(entry)}\n`);
+  } catch (error) {
+    // The audit log must never break the command it records
+    console.error(
+      `Warning: failed to write the audit log: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Audit log files from oldest to newest.
+ */
+function getLogFiles(): string[] {
+  if (!existsSync(AUDIT_LOG_DIR)) {
+    return [];
+  }
+  const rotated = readdirSync(AUDIT_LOG_DIR)
+    .map((file) => file.match(/^audit\.(\d+)\.jsonl$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .sort((a, b) => Number(b[1]) - Number(a[1]))
+    .map((match) => join(AUDIT_LOG_DIR, match[0]));
+  const current = join(AUDIT_LOG_DIR, AUDIT_LOG_FILE);
+  return existsSync(current) ? [...rotated, current] : rotated;
+}
+
+/**
+ * All logged entries from oldest to newest, lines that are not valid JSON are skipped.
+ */
+export function readAuditLog(): AuditLogEntry[] {
+  return getLogFiles().flatMap((file) =>
+    readFileSync(file, 'utf-8')
+      .split('\n')
+      .filter(Boolean)
+      .flatMap((line) => {
+        try {
+          return [JSON.parse(line) as AuditLogEntry];
+        } catch {
+          return [];
+        }
+      })
+  );
+}
+
+/**
+ * Wraps a provider instance so every request it sends and the response or error it gets back are
+ * appended to the audit log. Prompts and responses are redacted and truncated before writing.
+ */
+export function withAuditLog<T extends BaseModelProvider>(provider: Provider, instance: T): T {
+  const settings = getAuditSettings();
+  if (!settings.enabled) {
+    return instance;
+  }
+
+  const executePrompt = instance.executePrompt.bind(instance);
+  const streamPrompt = instance.streamPrompt?.bind(instance);
+
+  const record = (
+    prompt: string,
+    options: ModelOptions | undefined,
+    startTime: number,
+    result: { response?: string; error?: unknown }
+  ) => {
+    const clean = (text: string) => truncate(redactSecrets(text), settings.maxContentLength);
+    const { error } = result;
+    writeEntry({
+      timestamp: new Date(startTime).toISOString(),
+      provider,
+      model: options?.model ?? '',
+      cwd: process.cwd(),
+      latencyMs: Date.now() - startTime,
+      promptTokens: instance.tokenUsage?.promptTokens,
+      completionTokens: instance.tokenUsage?.completionTokens,
+      promptLength: prompt.length,
+      prompt: clean(prompt),
+      ...(options?.systemPrompt ? { systemPrompt: clean(options.systemPrompt) } : {}),
+      ...(options?.images?.length ? { images: options.images.map((image) => image.path) } : {}),
+      ...(options?.webSearch ? { webSearch: true } : {}),
+      ...(result.response !== undefined ? { response: clean(result.response) } : {}),
+      ...(error !== undefined
+        ? { error: redactSecrets(error instanceof Error ? error.message : String(error)) }
+        : {}),
+    });
+  };
+
+  instance.executePrompt = async (prompt: string, options?: ModelOptions) => {
+    const startTime = Date.now();
+    // Usage left over from an earlier call must not be attributed to this one
+    instance.tokenUsage = undefined;
+    try {
+      const response = await executePrompt(prompt, options);
+      record(prompt, options, startTime, { response });
+      return response;
+    } catch (error) {
+      record(prompt, options, startTime, { error });
+      throw error;
+    }
+  };
+
+  if (streamPrompt) {
+    instance.streamPrompt = async function* (prompt: string, options: ModelOptions) {
+      const startTime = Date.now();
+      instance.tokenUsage = undefined;
+      let response = '';
+      let failure: { error: unknown } | undefined;
+      try {
+        for await (const chunk of streamPrompt(prompt, options)) {
+          response += chunk;
+          yield chunk;
+        }
+      } catch (error) {
+        failure = { error };
+        throw error;
+      } finally {
+        // Also records streams the caller stopped reading early, with the part received so far
+        record(prompt, options, startTime, { response, ...failure });
+      }
+    };
+  }
+
+  return instance;
+}
@@ -1,8 +1,14 @@
-import type { Config, Provider } from '../types';
+import type { Config, CustomProviderConfig, Provider } from '../types';
 import type { VideoAnalysisOptions } from '../types';
-import { loadConfig, loadEnv } from '../config';
+import { defaultMaxTokens, loadConfig, loadEnv } from '../config';
 import OpenAI, { BadRequestError } from 'openai';
-import { ApiKeyMissingError, ModelNotFoundError, NetworkError, ProviderError } from '../errors';
+import {
+  ApiKeyMissingError,
+  GeminiRecitationError,
+  ModelNotFoundError,
+  NetworkError,
+  ProviderError,
+} from '../errors';
 import { exhaustiveMatchGuard } from '../utils/exhaustiveMatchGuard';
 import { chunkMessage } from '../utils/messageChunker';
 import Anthropic from '@anthropic-ai/sdk';
@@ -11,10 +17,48 @@ import { GoogleAuth } from 'google-auth-library';
 import { existsSync, readFileSync } from 'fs';
 import { execSync } from 'child_process';
 import { once } from '../utils/once';
-import { getAllProviders } from '../utils/providerAvailability';
+import { abortable, anySignal, sleep } from '../utils/abort';
+import { getAllProviders, getOllamaHost } from '../utils/providerAvailability';
 import { isModelNotFoundError } from './notFoundErrors';
+import { readServerSentEvents } from '../utils/sse';
+import type { z } from 'zod';
+import { executeStructuredPrompt, type StructuredOptions } from './structured';
+import { withResponseCache } from './responseCache';
+import { withCostAccounting } from './costAccounting';
+import { withAuditLog } from './auditLog';
+import { getCustomProvider, getCustomProviderApiKey } from './customProviders';
+import {
+  getModelCapabilities,
+  getModelInfo as getRegistryModelInfo,
+  listModels,
+} from './modelRegistry';
+import {
+  observeRateLimitHeaders,
+  reportRateLimitError,
+  withRateLimitScheduling,
+} from './rateLimitScheduler';
+import {
+  getRecordCassettePath,
+  getReplayCassettePath,
+  ReplayProvider,
+  withCassetteRecording,
+} from './cassette';
 
 const TEN_MINUTES = 600000;
+
+// Per-request options of the OpenAI and Anthropic SDKs, the call is aborted with the command
+function getRequestOptions(options: ModelOptions | undefined) {
+  return { timeout: Math.floor(options?.timeout ?? TEN_MINUTES), signal: options?.signal };
+}
+
+// The same for calls made with fetch, aborted with the command or once the timeout elapses
+function getRequestSignal(options: ModelOptions | undefined): AbortSignal {
+  return anySignal(
+    options?.signal,
+    AbortSignal.timeout(Math.floor(options?.timeout ?? TEN_MINUTES))
+  );
+}
+
 // Interfaces for Gemini response types
 interface GeminiGroundingChunk {
   web?: {
@@ -39,17 +83,57 @@ interface GeminiGroundingMetadata {
   webSearchQueries?: string[];
 }
 
+// Formats the web search queries and sources from Gemini grounding metadata into the
+// text appended after a response. Returns an empty string when there is nothing to cite.
+function formatGroundingCitations(grounding: GeminiGroundingMetadata): string {
+  if (!grounding.groundingSupports?.length || !grounding.groundingChunks?.length) {
+    return '';
+  }
+
+  let webSearchText = '';
+  if (grounding.webSearchQueries && grounding.webSearchQueries.length > 0) {
+    webSearchText = 'Web search queries:\n';
+    for (const query of grounding.webSearchQueries) {
+      webSearchText += `- ${query}\n`;
+    }
+    webSearchText += '\n';
+  }
+
+  let citationsText = '';
+  grounding.groundingChunks.forEach((chunk, idx) => {
+    if (chunk.web) {
+      citationsText += `[${idx + 1}]: ${chunk.web.uri}${chunk.web.title ? ` ${chunk.web.title}` : ''}\n`;
+    }
+  });
+
+  return (webSearchText + (citationsText ? `Citations:\n${citationsText}` : '')).trim();
+}
+
+// Gemini's JSON mode cannot be combined with the google_search tool, so web search requests rely
+// on the prompt alone for structured output
+function getGeminiGenerationConfig(
+  maxTokens: number,
+  options: ModelOptions | undefined
+): { maxOutputTokens: number; responseMimeType?: string } {
+  return {
+    maxOutputTokens: maxTokens,
+    ...(options?.jsonSchema && !options.webSearch ? { responseMimeType: 'application/json' } : {}),
+  };
+}
+
 // Request body types for Google APIs
+type GeminiPart = { text: string } | { inline_data: { mime_type: string; data: string } };
+
 interface GoogleVertexAIRequestBody {
-  contents: { role: string; parts: { text: string }[] }[];
-  generationConfig: { maxOutputTokens: number };
+  contents: { role: string; parts: GeminiPart[] }[];
+  generationConfig: { maxOutputTokens: number; responseMimeType?: string };
   system_instruction?: { parts: { text: string }[] };
   tools?: { google_search: Record<string, never> }[];
 }
 
 interface GoogleGenerativeLanguageRequestBody {
-  contents: { parts: { text: string }[] }[];
-  generationConfig: { maxOutputTokens: number };
+  contents: { parts: GeminiPart[] }[];
+  generationConfig: { maxOutputTokens: number; responseMimeType?: string };
   system_instruction?: { parts: { text: string }[] };
   tools?: { google_search: Record<string, never> }[];
 }
@@ -62,8 +146,70 @@ export interface ModelOptions {
   tokenCount?: number; // For handling large token counts
   webSearch?: boolean; // Whether to enable web search capabilities
   timeout?: number; // Timeout in milliseconds for model API calls
+  signal?: AbortSignal; // Cancels the API call when aborted
   debug: boolean | undefined; // Enable debug logging
   reasoningEffort?: 'low' | 'medium' | 'high'; // Support for o1 and o3-mini reasoning effort
+  jsonSchema?: Record<string, unknown>; // Request JSON output matching this schema from providers with a native JSON mode
+  images?: ImageAttachment[]; // Images sent along with the prompt to models with vision support
+}
+
+// Local image attached to a prompt
+export interface ImageAttachment {
+  path: string;
+  mimeType: string;
+  data: string; // Base64 encoded file content
+}
+
+type ChatMessage = {
+  role: 'system' | 'user';
+  content: string | OpenAI.Chat.ChatCompletionContentPart[];
+};
+
+// User message content in the format of each API, plain text when there are no images
+function getOpenAIUserContent(
+  prompt: string,
+  images: ImageAttachment[] | undefined
+): string | OpenAI.Chat.ChatCompletionContentPart[] {
+  if (!images?.length) {
+    return prompt;
+  }
+  return [
+    { type: 'text', text: prompt },
+    ...images.map((image) => ({
+      type: 'image_url' as const,
+      image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+    })),
+  ];
+}
+
+function getAnthropicUserContent(
+  prompt: string,
+  images: ImageAttachment[] | undefined
+): string | Anthropic.ContentBlockParam[] {
+  if (!images?.length) {
+    return prompt;
+  }
+  // Anthropic recommends placing images before the text that refers to them
+  return [
+    ...images.map((image) => ({
+      type: 'image' as const,
+      source: {
+        type: 'base64' as const,
+        media_type: image.mimeType as Anthropic.Base64ImageSource['media_type'],
+        data: image.data,
+      },
+    })),
+    { type: 'text', text: prompt },
+  ];
+}
+
+function getGeminiParts(prompt: string, images: ImageAttachment[] | undefined): GeminiPart[] {
+  return [
+    { text: prompt },
+    ...(images ?? []).map((image) => ({
+      inline_data: { mime_type: image.mimeType, data: image.data },
+    })),
+  ];
 }
 
 // Provider configuration in Config
@@ -92,6 +238,14 @@ export interface BaseModelProvider {
   };
   // Add this optional method for video analysis
   executeVideoPrompt?(prompt: string, options: VideoAnalysisOptions): Promise<string>;
+  // Optional streaming variant of executePrompt that yields text deltas as they arrive
+  streamPrompt?(prompt: string, options: ModelOptions): AsyncGenerator<string, void, unknown>;
+  // Executes a prompt whose answer is JSON validated against a zod schema
+  executeStructured<T>(
+    prompt: string,
+    schema: z.ZodType<T>,
+    options: StructuredOptions
+  ): Promise<T>;
 }
 
 // Base provider class with common functionality
@@ -110,6 +264,14 @@ export abstract class BaseProvider implements BaseModelProvider {
     this.config = loadConfig();
   }
 
+  async executeStructured<T>(
+    prompt: string,
+    schema: z.ZodType<T>,
+    options: StructuredOptions
+  ): Promise<T> {
+    return executeStructuredPrompt(this, prompt, schema, options);
+  }
+
   /**
    * Resolves a model name to an available model from the provider.
    * This method implements a multi-step resolution process:
@@ -153,7 +315,7 @@ export abstract class BaseProvider implements BaseModelProvider {
       return model;
     }
 
-    const availableModels = await this.availableModels;
+    const availableModels = await abortable(this.availableModels, options.signal);
     const modelWithoutPrefix = model.includes('/') ? model.split('/')[1] : model;
 
     // Try each resolution strategy in sequence
@@ -394,7 +556,8 @@ export abstract class BaseProvider implements BaseModelProvider {
   }
 
   /**
-   * Determines if the given model supports the reasoning effort parameter.
+   * Determines if the given model supports the reasoning effort parameter, using the model registry
+   * for known model families and name patterns for others.
    * Also checks the OVERRIDE_SAFETY_CHECKS environment variable to allow bypassing model restrictions.
    */
   protected doesModelSupportReasoningEffort(model: string): boolean {
@@ -404,6 +567,11 @@ export abstract class BaseProvider implements BaseModelProvider {
       return true;
     }
 
+    const capabilities = getModelCapabilities(model);
+    if (capabilities) {
+      return capabilities.reasoningEffort;
+    }
+
     // Extract model name without provider prefix if present
     const modelWithoutPrefix = model.includes('/') ? model.split('/')[1] : model;
 
@@ -441,6 +609,55 @@ export abstract class BaseProvider implements BaseModelProvider {
   abstract executePrompt(prompt: string, options: ModelOptions): Promise<string>;
   // Add executeVideoPrompt as optional here as well if not already present
   executeVideoPrompt?(prompt: string, options: VideoAnalysisOptions): Promise<string>;
+  // Providers that support streaming override this, callers must check for it before use
+  streamPrompt?(prompt: string, options: ModelOptions): AsyncGenerator<string, void, unknown>;
+
+  /**
+   * Converts an error raised while talking to the provider API into the error we surface to
+   * the user. Shared by the streaming implementations and newer providers instead of
+   * repeating the same catch block in every method.
+   */
+  protected rethrowProviderError(error: unknown, model: string, options: ModelOptions): never {
+    this.debugLog(options, `Error during ${this.constructor.name} API call:`, error);
+
+    // Check if this is a model not found error
+    if (isModelNotFoundError(error)) {
+      throw new ModelNotFoundError(
+        `${this.constructor.name.replace('Provider', '')}\n\nYou requested: ${model}\n\nError details: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    if (error instanceof ProviderError || error instanceof NetworkError) {
+      throw error;
+    }
+    if (error instanceof BadRequestError) {
+      // strip headers from error object before logging
+      Object.keys(error.headers || {}).forEach((key) => delete error.headers[key]);
+      throw error;
+    }
+    const message =
+      error instanceof Error ? error.message : typeof error === 'string' ? error : 'Unknown error';
+    throw new NetworkError(
+      `Failure during communication with ${this.constructor.name} API: ${message}`,
+      error
+    );
+  }
+}
+
+/**
+ * Executes a prompt and yields the response as it arrives. Uses the provider's streamPrompt
+ * when available and falls back to yielding the complete executePrompt response otherwise.
+ */
+export async function* executePromptStreaming(
+  provider: BaseModelProvider,
+  prompt: string,
+  options: ModelOptions
+): AsyncGenerator<string, void, unknown> {
+  if (provider.streamPrompt) {
+    yield* provider.streamPrompt(prompt, options);
+    return;
+  }
+  yield await provider.executePrompt(prompt, options);
 }
 
 // Helper function for exponential backoff retry
@@ -448,19 +665,22 @@ export async function retryWithBackoff<T>(
   operation: () => Promise<T>,
   maxAttempts: number = 5,
   baseDelay: number = 1000, // 1 second
-  shouldRetry: (error: any) => boolean = () => true
+  shouldRetry: (error: any) => boolean = () => true,
+  signal?: AbortSignal
 ): Promise<T> {
   let attempt = 1;
   while (true) {
     try {
       return await operation();
     } catch (error) {
+      signal?.throwIfAborted();
       if (attempt >= maxAttempts || !shouldRetry(error)) {
         throw error;
       }
-      const delay = baseDelay * Math.pow(2, attempt - 1); // Exponential backoff
+      // Exponential backoff, unless the server asked us to wait longer
+      const delay = Math.max(baseDelay * Math.pow(2, attempt - 1), reportRateLimitError(error));
       console.warn(`Attempt ${attempt} failed, retrying in ${delay}ms...`);
-      await new Promise((resolve) => setTimeout(resolve, delay));
+      await sleep(delay, signal);
       attempt++;
     }
   }
@@ -500,6 +720,97 @@ abstract class OpenAIBase extends BaseProvider {
     return this.defaultClient;
   }
 
+  // Builds the chat completion request body, subclasses adjust this for provider quirks
+  protected buildRequestParams(
+    model: string,
+    messages: ChatMessage[],
+    maxTokens: number,
+    options: ModelOptions
+  ): any {
+    const requestParams: any = {
+      model,
+      messages,
+      ...(model.includes('o1') || model.includes('o3')
+        ? {
+            max_completion_tokens: maxTokens,
+          }
+        : {
+            max_tokens: maxTokens,
+          }),
+    };
+
+    // Add reasoning_effort parameter for o1 or o3-mini models if specified
+    if (this.doesModelSupportReasoningEffort(model) && options?.reasoningEffort) {
+      requestParams.reasoning_effort = options.reasoningEffort;
+      this.debugLog(options, `Using reasoning_effort: ${options.reasoningEffort}`);
+    } else if (options?.reasoningEffort) {
+      console.log(
+        `Model ${model} does not support reasoning effort. Parameter will be ignored. Set OVERRIDE_SAFETY_CHECKS=true to bypass this check and pass the reasoning effort parameter to the provider API`
+      );
+    }
+
+    return requestParams;
+  }
+
+  async *streamPrompt(
+    prompt: string,
+    options: ModelOptions
+  ): AsyncGenerator<string, void, unknown> {
+    const model = await this.getModel(options);
+    const maxTokens = options.maxTokens;
+    const systemPrompt = this.getSystemPrompt(options);
+    const client = this.getClient(options);
+    const startTime = Date.now();
+
+    this.logRequestStart(
+      options,
+      model,
+      maxTokens,
+      systemPrompt,
+      `${client.baseURL ?? 'https://api.openai.com/v1'}/chat/completions`
+    );
+
+    try {
+      const messages = [
+        ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
+        { role: 'user' as const, content: getOpenAIUserContent(prompt, options.images) },
+      ];
+
+      const requestParams: OpenAI.Chat.ChatCompletionCreateParamsStreaming = {
+        ...this.buildRequestParams(model, messages, maxTokens, options),
+        stream: true,
+        stream_options: { include_usage: true },
+      };
+
+      this.debugLog(options, 'Full request parameters:', this.truncateForLogging(requestParams));
+
+      const stream = await client.chat.completions.create(
+        requestParams,
+        getRequestOptions(options)
+      );
+
+      let receivedContent = false;
+      for await (const chunk of stream) {
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          receivedContent = true;
+          yield delta;
+        }
+        if (chunk.usage) {
+          this.setTokenUsage(chunk.usage.prompt_tokens ?? 0, chunk.usage.completion_tokens ?? 0);
+        }
+      }
+
+      this.debugLog(options, `Streaming completed in ${Date.now() - startTime}ms`);
+
+      if (!receivedContent) {
+        throw new ProviderError(`${this.constructor.name} returned an empty response`);
+      }
+    } catch (error) {
+      this.rethrowProviderError(error, model, options);
+    }
+  }
+
   async supportsWebSearch(
     modelName: string
   ): Promise<{ supported: boolean; model?: string; error?: string }> {
@@ -527,37 +838,20 @@ abstract class OpenAIBase extends BaseProvider {
     try {
       const messages = [
         ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
-        { role: 'user' as const, content: prompt },
+        { role: 'user' as const, content: getOpenAIUserContent(prompt, options.images) },
       ];
 
       this.debugLog(options, 'Request messages:', this.truncateForLogging(messages));
 
-      const requestParams: any = {
-        model,
-        messages,
-        ...(model.includes('o1') || model.includes('o3')
-          ? {
-              max_completion_tokens: maxTokens,
-            }
-          : {
-              max_tokens: maxTokens,
-            }),
-      };
-
-      // Add reasoning_effort parameter for o1 or o3-mini models if specified
-      if (this.doesModelSupportReasoningEffort(model) && options?.reasoningEffort) {
-        requestParams.reasoning_effort = options.reasoningEffort;
-        this.debugLog(options, `Using reasoning_effort: ${options.reasoningEffort}`);
-      } else if (options?.reasoningEffort) {
-        console.log(
-          `Model ${model} does not support reasoning effort. Parameter will be ignored. Set OVERRIDE_SAFETY_CHECKS=true to bypass this check and pass the reasoning effort parameter to the provider API`
-        );
-      }
+      const requestParams = this.buildRequestParams(model, messages, maxTokens, options);
 
       // Log full request parameters in debug mode
       this.debugLog(options, 'Full request parameters:', this.truncateForLogging(requestParams));
 
-      const response = await client.chat.completions.create(requestParams);
+      const response = await client.chat.completions.create(
+        requestParams,
+        getRequestOptions(options)
+      );
 
       const endTime = Date.now();
       this.debugLog(options, `API call completed in ${endTime - startTime}ms`);
@@ -728,10 +1022,10 @@ export class GoogleVertexAIProvider extends BaseProvider {
             contents: [
               {
                 role: 'user',
-                parts: [{ text: prompt }],
+                parts: getGeminiParts(prompt, options.images),
               },
             ],
-            generationConfig: { maxOutputTokens: maxTokens },
+            generationConfig: getGeminiGenerationConfig(maxTokens, options),
             ...(systemPrompt
               ? {
                   system_instruction: {
@@ -759,12 +1053,14 @@ export class GoogleVertexAIProvider extends BaseProvider {
               'Content-Type': 'application/json',
             },
             body: JSON.stringify(requestBody),
+            signal: getRequestSignal(options),
           });
 
           const endTime = Date.now();
           this.debugLog(options, `API call completed in ${endTime - startTime}ms`);
 
           if (!response.ok) {
+            observeRateLimitHeaders(response.headers);
             const errorText = await response.text();
             if (response.status === 429) {
               console.warn(
@@ -878,7 +1174,8 @@ export class GoogleVertexAIProvider extends BaseProvider {
           return errorText.includes('429') || errorText.includes('resource exhausted');
         }
         return false;
-      }
+      },
+      options.signal
     );
   }
 
@@ -1161,8 +1458,8 @@ export class GoogleGenerativeLanguageProvider extends BaseProvider {
       async () => {
         try {
           const requestBody: GoogleGenerativeLanguageRequestBody = {
-            contents: [{ parts: [{ text: prompt }] }],
-            generationConfig: { maxOutputTokens: maxTokens },
+            contents: [{ parts: getGeminiParts(prompt, options.images) }],
+            generationConfig: getGeminiGenerationConfig(maxTokens, options),
             ...(systemPrompt
               ? {
                   system_instruction: {
@@ -1192,12 +1489,14 @@ export class GoogleGenerativeLanguageProvider extends BaseProvider {
               'Content-Type': 'application/json',
             },
             body: JSON.stringify(requestBody),
+            signal: getRequestSignal(options),
           });
 
           const endTime = Date.now();
           this.debugLog(options, `API call completed in ${endTime - startTime}ms`);
 
           if (!response.ok) {
+            observeRateLimitHeaders(response.headers);
             const errorText = await response.text();
             if (response.status === 429) {
               if (options.debug) {
@@ -1345,10 +1644,145 @@ export class GoogleGenerativeLanguageProvider extends BaseProvider {
           );
         }
         return false;
-      }
+      },
+      options.signal
     );
   }
 
+  async *streamPrompt(
+    prompt: string,
+    options: ModelOptions
+  ): AsyncGenerator<string, void, unknown> {
+    const model = await this.getModel(options);
+    const maxTokens = options.maxTokens;
+    const systemPrompt = this.getSystemPrompt(options);
+    const startTime = Date.now();
+
+    const baseURL = `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent`;
+
+    this.logRequestStart(options, model, maxTokens, systemPrompt, baseURL);
+
+    try {
+      const requestBody: GoogleGenerativeLanguageRequestBody = {
+        contents: [{ parts: getGeminiParts(prompt, options.images) }],
+        generationConfig: getGeminiGenerationConfig(maxTokens, options),
+        ...(systemPrompt
+          ? {
+              system_instruction: {
+                parts: [{ text: systemPrompt }],
+              },
+            }
+          : {}),
+      };
+
+      // Add web search tool only when explicitly requested
+      if (options?.webSearch) {
+        requestBody.tools = [
+          {
+            google_search: {},
+          },
+        ];
+      }
+
+      this.debugLog(options, 'Request body:', this.truncateForLogging(requestBody));
+
+      const apiKey = await this.getAPIKey();
+      const url = `${baseURL}?alt=sse&key=${apiKey}`;
+
+      // Only the initial request is retried, once tokens start flowing we cannot replay them
+      const response = await retryWithBackoff(
+        async () => {
+          const response = await fetch(url, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(requestBody),
+            signal: getRequestSignal(options),
+          });
+
+          if (!response.ok) {
+            observeRateLimitHeaders(response.headers);
+            const errorText = await response.text();
+            if (response.status === 429) {
+              console.warn(
+                'Received 429 error from Google API. This can occur due to token limits on free accounts. ' +
+                  'For more information, see: https://github.com/eastlondoner/vibe-tools/issues/35'
+              );
+            }
+            throw new NetworkError(
+              `Google Generative Language API error (${response.status}): ${errorText}`
+            );
+          }
+          return response;
+        },
+        5,
+        1000,
+        (error) => {
+          if (error instanceof NetworkError) {
+            const errorText = error.message?.toLowerCase();
+            return (
+              errorText?.includes('429') ||
+              errorText?.includes('resource exhausted') ||
+              errorText?.includes('rate limit') ||
+              errorText?.includes('try again later')
+            );
+          }
+          return false;
+        },
+        options.signal
+      );
+
+      if (!response.body) {
+        throw new ProviderError('Google Generative Language returned an empty response');
+      }
+
+      let receivedContent = false;
+      let grounding: GeminiGroundingMetadata | undefined;
+      for await (const data of readServerSentEvents(response.body)) {
+        const chunk = JSON.parse(data);
+        const candidate = chunk.candidates?.[0];
+        if (candidate?.finishReason === 'RECITATION') {
+          throw new GeminiRecitationError();
+        }
+
+        const text = (candidate?.content?.parts ?? [])
+          .map((part: { text?: string }) => part.text ?? '')
+          .join('');
+        if (text) {
+          receivedContent = true;
+          yield text;
+        }
+
+        if (candidate?.groundingMetadata) {
+          grounding = candidate.groundingMetadata;
+        }
+        // usageMetadata is cumulative, the last chunk carries the final totals
+        if (chunk.usageMetadata) {
+          this.setTokenUsage(
+            chunk.usageMetadata.promptTokenCount ?? 0,
+            chunk.usageMetadata.candidatesTokenCount ?? 0
+          );
+        }
+      }
+
+      this.debugLog(options, `Streaming completed in ${Date.now() - startTime}ms`);
+
+      if (!receivedContent) {
+        throw new ProviderError('Google Generative Language returned an empty response');
+      }
+
+      if (grounding) {
+        const citations = formatGroundingCitations(grounding);
+        if (citations) {
+          yield `\n\n${citations}`;
+        }
+      }
+    } catch (error) {
+      this.rethrowProviderError(error, model, options);
+    }
+  }
+
   // Add executeVideoPrompt method
   async executeVideoPrompt(prompt: string, options: VideoAnalysisOptions): Promise<string> {
     const model = await this.getModel(options);
@@ -1432,12 +1866,14 @@ export class GoogleGenerativeLanguageProvider extends BaseProvider {
               'Content-Type': 'application/json',
             },
             body: JSON.stringify(requestBody),
+            signal: getRequestSignal(options),
           });
 
           const endTime = Date.now();
           this.debugLog(options, `API call completed in ${endTime - startTime}ms`);
 
           if (!response.ok) {
+            observeRateLimitHeaders(response.headers);
             const errorText = await response.text();
             const status = response.status;
 
@@ -1512,7 +1948,8 @@ export class GoogleGenerativeLanguageProvider extends BaseProvider {
           );
         }
         return false; // Don't retry on other errors
-      }
+      },
+      options.signal
     );
   }
 
@@ -1556,6 +1993,45 @@ export class OpenAIProvider extends OpenAIBase {
     };
   }
 
+  protected buildRequestParams(
+    model: string,
+    messages: ChatMessage[],
+    maxTokens: number,
+    options: ModelOptions
+  ): any {
+    const requestParams: any = {
+      model,
+      messages,
+      ...(model.startsWith('o') || model.startsWith('gpt-4.1') || model.startsWith('gpt-5')
+        ? {
+            max_completion_tokens: maxTokens,
+          }
+        : {
+            max_tokens: maxTokens,
+          }),
+    };
+
+    // Structured output; strict mode is off because it rejects common schema features
+    if (options.jsonSchema) {
+      requestParams.response_format = {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema: options.jsonSchema, strict: false },
+      };
+    }
+
+    // Add reasoning_effort parameter for o1 or o3-mini models if specified
+    if (this.doesModelSupportReasoningEffort(model) && options?.reasoningEffort) {
+      requestParams.reasoning_effort = options.reasoningEffort;
+      this.debugLog(options, `Using reasoning_effort: ${options.reasoningEffort}`);
+    } else if (options?.reasoningEffort) {
+      console.log(
+        `Model ${model} does not support reasoning effort. Parameter will be ignored. Set OVERRIDE_SAFETY_CHECKS=true to bypass this check and pass the reasoning effort parameter to the provider API`
+      );
+    }
+
+    return requestParams;
+  }
+
   async executePrompt(prompt: string, options: ModelOptions): Promise<string> {
     const model = await this.getModel(options);
     const maxTokens = options.maxTokens;
@@ -1565,42 +2041,27 @@ export class OpenAIProvider extends OpenAIBase {
     const promptChunks = chunkMessage(prompt, messageLimit);
     let combinedResponseContent = '';
 
-    for (const chunk of promptChunks) {
+    for (const [index, chunk] of promptChunks.entries()) {
       try {
+        // Images are only sent once, with the first chunk
+        const images = index === 0 ? options.images : undefined;
         const messages = [
           ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
-          { role: 'user' as const, content: chunk },
+          { role: 'user' as const, content: getOpenAIUserContent(chunk, images) },
         ];
 
         this.debugLog(options, 'Request messages:', this.truncateForLogging(messages));
 
         // Create request parameters, including model-specific configurations
-        const requestParams: any = {
-          model,
-          messages,
-          ...(model.startsWith('o') || model.startsWith('gpt-4.1') || model.startsWith('gpt-5')
-            ? {
-                max_completion_tokens: maxTokens,
-              }
-            : {
-                max_tokens: maxTokens,
-              }),
-        };
-
-        // Add reasoning_effort parameter for o1 or o3-mini models if specified
-        if (this.doesModelSupportReasoningEffort(model) && options?.reasoningEffort) {
-          requestParams.reasoning_effort = options.reasoningEffort;
-          this.debugLog(options, `Using reasoning_effort: ${options.reasoningEffort}`);
-        } else if (options?.reasoningEffort) {
-          console.log(
-            `Model ${model} does not support reasoning effort. Parameter will be ignored. Set OVERRIDE_SAFETY_CHECKS=true to bypass this check and pass the reasoning effort parameter to the provider API`
-          );
-        }
+        const requestParams = this.buildRequestParams(model, messages, maxTokens, options);
 
         // Log full request parameters in debug mode
         this.debugLog(options, 'Full request parameters:', this.truncateForLogging(requestParams));
 
-        const response = await client.chat.completions.create(requestParams);
+        const response = await client.chat.completions.create(
+          requestParams,
+          getRequestOptions(options)
+        );
 
         this.debugLog(options, 'Response:', JSON.stringify(response, null, 2));
 
@@ -1690,6 +2151,35 @@ export class OpenRouterProvider extends OpenAIBase {
     return {};
   }
 
+  protected buildRequestParams(
+    model: string,
+    messages: ChatMessage[],
+    maxTokens: number,
+    options: ModelOptions
+  ): any {
+    const requestParams: any = {
+      model,
+      messages,
+      max_tokens: maxTokens,
+    };
+
+    // Add reasoning_effort parameter for o1 or o3-mini models if specified
+    if (this.doesModelSupportReasoningEffort(model) && options?.reasoningEffort) {
+      // OpenRouter has a different format for reasoning parameters
+      // https://openrouter.ai/docs/use-cases/reasoning-tokens
+      requestParams.reasoning = {
+        effort: options.reasoningEffort,
+      };
+      this.debugLog(options, `Using reasoning effort: ${options.reasoningEffort}`);
+    } else if (options?.reasoningEffort) {
+      console.log(
+        `Model ${model} does not support reasoning effort. Parameter will be ignored. Set OVERRIDE_SAFETY_CHECKS=true to bypass this check and pass the reasoning effort parameter to the provider API`
+      );
+    }
+
+    return requestParams;
+  }
+
   private async initializeModels(): Promise<Set<string>> {
     try {
       const response = await fetch('https://openrouter.ai/api/v1/models', {
@@ -1725,7 +2215,7 @@ export class OpenRouterProvider extends OpenAIBase {
     try {
       const messages = [
         ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
-        { role: 'user' as const, content: prompt },
+        { role: 'user' as const, content: getOpenAIUserContent(prompt, options.images) },
       ];
 
       this.logRequestStart(
@@ -1738,28 +2228,10 @@ export class OpenRouterProvider extends OpenAIBase {
       );
 
       // Create request parameters
-      const requestParams: any = {
-        model,
-        messages,
-        max_tokens: maxTokens,
-      };
-
-      // Add reasoning_effort parameter for o1 or o3-mini models if specified
-      if (this.doesModelSupportReasoningEffort(model) && options?.reasoningEffort) {
-        // OpenRouter has a different format for reasoning parameters
-        // https://openrouter.ai/docs/use-cases/reasoning-tokens
-        requestParams.reasoning = {
-          effort: options.reasoningEffort,
-        };
-        this.debugLog(options, `Using reasoning effort: ${options.reasoningEffort}`);
-      } else if (options?.reasoningEffort) {
-        console.log(
-          `Model ${model} does not support reasoning effort. Parameter will be ignored. Set OVERRIDE_SAFETY_CHECKS=true to bypass this check and pass the reasoning effort parameter to the provider API`
-        );
-      }
+      const requestParams = this.buildRequestParams(model, messages, maxTokens, options);
 
       const response = await client.chat.completions.create(requestParams, {
-        timeout: Math.floor(options?.timeout ?? TEN_MINUTES),
+        ...getRequestOptions(options),
         maxRetries: 3,
       });
 
@@ -1835,6 +2307,9 @@ export class PerplexityProvider extends BaseProvider {
     if (!apiKey) {
       throw new ApiKeyMissingError('Perplexity');
     }
+    if (options.images?.length) {
+      throw new ProviderError('Perplexity does not support image attachments');
+    }
 
     return retryWithBackoff(
       async () => {
@@ -1871,14 +2346,16 @@ export class PerplexityProvider extends BaseProvider {
               Accept: 'application/json',
             },
             body: JSON.stringify(requestBody),
+            signal: getRequestSignal(options),
           });
 
           const endTime = Date.now();
           this.debugLog(options, `API call completed in ${endTime - startTime}ms`);
 
           if (!response.ok) {
+            observeRateLimitHeaders(response.headers);
             const errorText = await response.text();
-            throw new NetworkError(`Perplexity API error: ${errorText}`);
+            throw new NetworkError(`Perplexity API error (${response.status}): ${errorText}`);
           }
 
           const data = await response.json();
@@ -1934,30 +2411,132 @@ export class PerplexityProvider extends BaseProvider {
           return errorText.includes('429') || errorText.includes('rate limit');
         }
         return false;
-      }
+      },
+      options.signal
     );
   }
-}
-
-// ModelBox provider implementation
-export class ModelBoxProvider extends OpenAIBase {
-  private static readonly defaultHeaders: Record<string, string> = {};
-  private static readonly webSearchHeaders: Record<string, string> = {
-    'x-feature-search-internet': 'true',
-  };
 
-  constructor() {
-    const apiKey = process.env.MODELBOX_API_KEY;
+  async *streamPrompt(
+    prompt: string,
+    options: ModelOptions
+  ): AsyncGenerator<string, void, unknown> {
+    const apiKey = process.env.PERPLEXITY_API_KEY;
     if (!apiKey) {
-      throw new ApiKeyMissingError('ModelBox');
+      throw new ApiKeyMissingError('Perplexity');
     }
-    super(
-      apiKey,
-      'https://api.model.box/v1',
-      {
-        defaultHeaders: ModelBoxProvider.defaultHeaders,
-      },
-      {
+    if (options.images?.length) {
+      throw new ProviderError('Perplexity does not support image attachments');
+    }
+
+    const model = await this.getModel(options);
+    const maxTokens = options.maxTokens;
+    const systemPrompt = this.getSystemPrompt(options);
+    const startTime = Date.now();
+
+    this.logRequestStart(
+      options,
+      model,
+      maxTokens,
+      systemPrompt,
+      'https://api.perplexity.ai/chat/completions'
+    );
+
+    try {
+      const requestBody = {
+        model,
+        messages: [
+          ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
+          { role: 'user', content: prompt },
+        ],
+        max_tokens: maxTokens,
+        stream: true,
+      };
+
+      this.debugLog(options, 'Request body:', this.truncateForLogging(requestBody));
+
+      // Only the initial request is retried, once tokens start flowing we cannot replay them
+      const response = await retryWithBackoff(
+        async () => {
+          const response = await fetch('https://api.perplexity.ai/chat/completions', {
+            method: 'POST',
+            headers: {
+              Authorization: `Bearer ${apiKey}`,
+              'Content-Type': 'application/json',
+              Accept: 'text/event-stream',
+            },
+            body: JSON.stringify(requestBody),
+            signal: getRequestSignal(options),
+          });
+
+          if (!response.ok) {
+            observeRateLimitHeaders(response.headers);
+            const errorText = await response.text();
+            throw new NetworkError(`Perplexity API error (${response.status}): ${errorText}`);
+          }
+          return response;
+        },
+        5,
+        1000,
+        (error) => {
+          if (error instanceof NetworkError) {
+            const errorText = error.message.toLowerCase();
+            return errorText.includes('429') || errorText.includes('rate limit');
+          }
+          return false;
+        },
+        options.signal
+      );
+
+      if (!response.body) {
+        throw new ProviderError('Perplexity returned an empty response');
+      }
+
+      let receivedContent = false;
+      for await (const data of readServerSentEvents(response.body)) {
+        if (data === '[DONE]') {
+          break;
+        }
+        const chunk = JSON.parse(data);
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          receivedContent = true;
+          yield delta;
+        }
+        if (chunk.usage) {
+          this.setTokenUsage(chunk.usage.prompt_tokens ?? 0, chunk.usage.completion_tokens ?? 0);
+        }
+      }
+
+      this.debugLog(options, `Streaming completed in ${Date.now() - startTime}ms`);
+
+      if (!receivedContent) {
+        throw new ProviderError('Perplexity returned an empty response');
+      }
+    } catch (error) {
+      this.rethrowProviderError(error, model, options);
+    }
+  }
+}
+
+// ModelBox provider implementation
+export class ModelBoxProvider extends OpenAIBase {
+  private static readonly defaultHeaders: Record<string, string> = {};
+  private static readonly webSearchHeaders: Record<string, string> = {
+    'x-feature-search-internet': 'true',
+  };
+
+  constructor() {
+    const apiKey = process.env.MODELBOX_API_KEY;
+    if (!apiKey) {
+      throw new ApiKeyMissingError('ModelBox');
+    }
+    super(
+      apiKey,
+      'https://api.model.box/v1',
+      {
+        defaultHeaders: ModelBoxProvider.defaultHeaders,
+      },
+      {
         defaultHeaders: ModelBoxProvider.webSearchHeaders,
       }
     );
@@ -2098,6 +2677,20 @@ export class ModelBoxProvider extends OpenAIBase {
     }
   }
 
+  // ModelBox does not accept reasoning parameters, send the plain chat completion body
+  protected buildRequestParams(
+    model: string,
+    messages: ChatMessage[],
+    maxTokens: number,
+    options: ModelOptions
+  ): any {
+    return {
+      model,
+      messages,
+      max_tokens: maxTokens,
+    };
+  }
+
   async executePrompt(prompt: string, options: ModelOptions): Promise<string> {
     const model = await this.getModel(options);
     const maxTokens = options.maxTokens;
@@ -2107,7 +2700,7 @@ export class ModelBoxProvider extends OpenAIBase {
     try {
       const messages = [
         ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
-        { role: 'user' as const, content: prompt },
+        { role: 'user' as const, content: getOpenAIUserContent(prompt, options.images) },
       ];
 
       this.logRequestStart(
@@ -2126,7 +2719,7 @@ export class ModelBoxProvider extends OpenAIBase {
           max_tokens: maxTokens,
         },
         {
-          timeout: Math.floor(options?.timeout ?? TEN_MINUTES),
+          ...getRequestOptions(options),
           maxRetries: 3,
         }
       );
@@ -2174,14 +2767,22 @@ export class ModelBoxProvider extends OpenAIBase {
 export class AnthropicProvider extends BaseProvider {
   private client: Anthropic;
 
-  constructor() {
+  // Without a connection the Anthropic API is used, custom providers pass their own endpoint
+  constructor(connection?: {
+    apiKey: string;
+    baseURL: string;
+    defaultHeaders?: Record<string, string>;
+  }) {
     super();
-    const apiKey = process.env.ANTHROPIC_API_KEY;
+    const apiKey = connection?.apiKey ?? process.env.ANTHROPIC_API_KEY;
     if (!apiKey) {
       throw new ApiKeyMissingError('Anthropic');
     }
     this.client = new Anthropic({
       apiKey,
+      ...(connection
+        ? { baseURL: connection.baseURL, defaultHeaders: connection.defaultHeaders }
+        : {}),
     });
   }
 
@@ -2210,6 +2811,113 @@ export class AnthropicProvider extends BaseProvider {
     };
   }
 
+  // Map reasoning effort levels to extended thinking token budgets
+  private getThinkingBudget(reasoningEffort: string, maxTokens: number): number {
+    let budgetTokens: number;
+    switch (reasoningEffort) {
+      case 'low':
+        budgetTokens = 4000;
+        break;
+      case 'medium':
+        budgetTokens = 8000;
+        break;
+      case 'high':
+        budgetTokens = 16000;
+        break;
+      default:
+        console.log(
+          `Unrecognized reasoning effort value ${reasoningEffort}, using default reasoning effort (medium).`
+        );
+        budgetTokens = 8000; // Default to medium if somehow invalid
+    }
+
+    // Ensure budget tokens is less than max tokens
+    if (budgetTokens > maxTokens) {
+      budgetTokens = Math.floor(maxTokens * 0.7); // Use 70% of max tokens if budget exceeds max
+    }
+    return budgetTokens;
+  }
+
+  // Anthropic rejects non-streaming requests that may run longer than ten minutes, which in
+  // practice means anything above defaultMaxTokens. Those are sent as a stream and collected.
+  private async createMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    options: ModelOptions
+  ): Promise<Anthropic.Message> {
+    if (params.max_tokens > defaultMaxTokens) {
+      return this.client.messages.stream(params, getRequestOptions(options)).finalMessage();
+    }
+    return this.client.messages.create(params, getRequestOptions(options));
+  }
+
+  async *streamPrompt(
+    prompt: string,
+    options: ModelOptions
+  ): AsyncGenerator<string, void, unknown> {
+    const model = await this.getModel(options);
+    const maxTokens = options.maxTokens;
+    const systemPrompt = this.getSystemPrompt(options);
+    const startTime = Date.now();
+
+    this.logRequestStart(
+      options,
+      model,
+      maxTokens,
+      systemPrompt,
+      'https://api.anthropic.com/v1/messages'
+    );
+
+    try {
+      const requestParams: Anthropic.MessageCreateParamsNonStreaming = {
+        model,
+        max_tokens: maxTokens,
+        system: systemPrompt,
+        messages: [
+          { role: 'user' as const, content: getAnthropicUserContent(prompt, options.images) },
+        ],
+      };
+
+      // Add extended thinking if supported by the model and reasoningEffort is set
+      if (this.doesModelSupportReasoningEffort(model) && options?.reasoningEffort) {
+        requestParams.thinking = {
+          type: 'enabled' as const,
+          budget_tokens: this.getThinkingBudget(options.reasoningEffort, maxTokens),
+        };
+      } else if (options?.reasoningEffort) {
+        console.log(
+          `Model ${model} does not support extended thinking. Parameter will be ignored. Set OVERRIDE_SAFETY_CHECKS=true to bypass this check and pass the reasoning effort parameter to the provider API`
+        );
+      }
+
+      this.debugLog(options, 'Full request body:', this.truncateForLogging(requestParams));
+
+      const stream = this.client.messages.stream(requestParams, getRequestOptions(options));
+
+      let receivedContent = false;
+      for await (const event of stream) {
+        // Thinking deltas are skipped, only the answer text is streamed to the user
+        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          receivedContent = true;
+          yield event.delta.text;
+        }
+      }
+
+      const finalMessage = await stream.finalMessage();
+      this.setTokenUsage(
+        finalMessage.usage.input_tokens ?? 0,
+        finalMessage.usage.output_tokens ?? 0
+      );
+
+      this.debugLog(options, `Streaming completed in ${Date.now() - startTime}ms`);
+
+      if (!receivedContent) {
+        throw new ProviderError('Anthropic returned no text blocks');
+      }
+    } catch (error) {
+      this.rethrowProviderError(error, model, options);
+    }
+  }
+
   async executePrompt(prompt: string, options: ModelOptions): Promise<string> {
     const model = await this.getModel(options);
     const maxTokens = options.maxTokens;
@@ -2237,34 +2945,14 @@ export class AnthropicProvider extends BaseProvider {
         model,
         max_tokens: maxTokens,
         system: systemPrompt,
-        messages: [{ role: 'user' as const, content: prompt }],
+        messages: [
+          { role: 'user' as const, content: getAnthropicUserContent(prompt, options.images) },
+        ],
       };
 
       // Add extended thinking if supported by the model and reasoningEffort is set
       if (this.doesModelSupportReasoningEffort(model) && options?.reasoningEffort) {
-        // Map reasoning effort levels to token budgets
-        let budgetTokens: number;
-        switch (options.reasoningEffort) {
-          case 'low':
-            budgetTokens = 4000;
-            break;
-          case 'medium':
-            budgetTokens = 8000;
-            break;
-          case 'high':
-            budgetTokens = 16000;
-            break;
-          default:
-            console.log(
-              `Unrecognized reasoning effort value ${options.reasoningEffort}, using default reasoning effort (medium).`
-            );
-            budgetTokens = 8000; // Default to medium if somehow invalid
-        }
-
-        // Ensure budget tokens is less than max tokens
-        if (budgetTokens > maxTokens) {
-          budgetTokens = Math.floor(maxTokens * 0.7); // Use 70% of max tokens if budget exceeds max
-        }
+        const budgetTokens = this.getThinkingBudget(options.reasoningEffort, maxTokens);
 
         if (options?.debug) {
           console.log(`Using extended thinking with budget: ${budgetTokens} tokens`);
@@ -2284,7 +2972,7 @@ export class AnthropicProvider extends BaseProvider {
           console.log('Full request body:', JSON.stringify(requestParamsWithThinking, null, 2));
         }
 
-        const response = await this.client.messages.create(requestParamsWithThinking);
+        const response = await this.createMessage(requestParamsWithThinking, options);
 
         const endTime = Date.now();
         this.debugLog(options, `API call completed in ${endTime - startTime}ms`);
@@ -2343,7 +3031,7 @@ export class AnthropicProvider extends BaseProvider {
           console.log('Full request body:', JSON.stringify(requestParams, null, 2));
         }
 
-        const response = await this.client.messages.create(requestParams);
+        const response = await this.createMessage(requestParams, options);
 
         const endTime = Date.now();
         this.debugLog(options, `API call completed in ${endTime - startTime}ms`);
@@ -2395,6 +3083,20 @@ export class AnthropicProvider extends BaseProvider {
   }
 }
 
+// Provider declared in customProviders that speaks the Anthropic Messages API
+export class CustomAnthropicProvider extends AnthropicProvider {
+  constructor(definition: CustomProviderConfig) {
+    super({
+      apiKey: getCustomProviderApiKey(definition),
+      baseURL: definition.baseURL,
+      defaultHeaders: definition.headers,
+    });
+    if (definition.models?.length) {
+      this.availableModels = Promise.resolve(new Set(definition.models));
+    }
+  }
+}
+
 // X.AI (Grok) provider implementation
 export class XAIProvider extends OpenAIBase {
   constructor() {
@@ -2421,205 +3123,160 @@ export class XAIProvider extends OpenAIBase {
   }
 }
 
-// Model capability definitions for APIZH provider
+// Provider declared in customProviders that speaks the OpenAI chat completions API
+export class CustomOpenAIProvider extends OpenAIBase {
+  private readonly providerName: string;
+
+  constructor(definition: CustomProviderConfig) {
+    super(getCustomProviderApiKey(definition), definition.baseURL, {
+      defaultHeaders: definition.headers,
+    });
+    this.providerName = definition.name;
+    // Declared models enable the usual model name resolution, otherwise any name is sent as given
+    if (definition.models?.length) {
+      this.availableModels = Promise.resolve(new Set(definition.models));
+    }
+  }
+
+  async supportsWebSearch(
+    modelName: string
+  ): Promise<{ supported: boolean; model?: string; error?: string }> {
+    return {
+      supported: false,
+      error: `${this.providerName} does not support web search capabilities`,
+    };
+  }
+}
+
+// Model information shown by `vibe-tools apizh-models`
 interface ModelCapability {
   name: string;
-  family: 'openai' | 'anthropic' | 'deepseek' | 'gemini' | 'qwen' | 'doubao';
-  cost: 'low' | 'medium' | 'high' | 'premium';
-  speed: 'fast' | 'medium' | 'slow';
-  quality: 'good' | 'excellent' | 'premium';
+  family: string;
+  contextWindow: number;
   capabilities: string[];
+  cost?: 'low' | 'medium' | 'high' | 'premium';
+  speed?: 'fast' | 'medium' | 'slow';
+  quality?: 'good' | 'excellent' | 'premium';
   bestFor: string[];
-  contextLength?: string;
-  chineseFriendly: boolean;
 }
 
+// How the relayed models compare when choosing one for a task. The models and their capabilities
+// come from the model registry, this only adds guidance the registry does not track.
+type ModelProfile = Pick<ModelCapability, 'cost' | 'speed' | 'quality' | 'bestFor'>;
+
+// Model families by name prefix, used to group models in `apizh-models categories`
+const APIZH_MODEL_FAMILIES: [prefix: RegExp, family: string][] = [
+  [/^(gpt-|o\d)/, 'openai'],
+  [/^claude-/, 'anthropic'],
+  [/^deepseek-/, 'deepseek'],
+  [/^gemini-/, 'gemini'],
+  [/^qwen/, 'qwen'],
+  [/^doubao-/, 'doubao'],
+];
+
 // APIZH (Chinese API Relay) provider implementation
 export class APIZHProvider extends OpenAIBase {
-  private static readonly MODEL_CAPABILITIES: Record<string, ModelCapability> = {
-    // OpenAI GPT-4o series - Latest and most capable
+  private static readonly MODEL_PROFILES: Record<string, ModelProfile> = {
     'gpt-4o': {
-      name: 'gpt-4o',
-      family: 'openai',
       cost: 'high',
       speed: 'fast',
       quality: 'premium',
-      capabilities: ['text', 'vision', 'multimodal', 'reasoning'],
       bestFor: ['complex analysis', 'multimodal tasks', 'professional writing', 'code review'],
-      contextLength: '128k',
-      chineseFriendly: true,
     },
     'gpt-4o-mini': {
-      name: 'gpt-4o-mini',
-      family: 'openai',
       cost: 'low',
       speed: 'fast',
       quality: 'excellent',
-      capabilities: ['text', 'vision', 'multimodal'],
       bestFor: ['general tasks', 'quick questions', 'cost-effective solutions', 'daily use'],
-      contextLength: '128k',
-      chineseFriendly: true,
     },
     'gpt-4.1': {
-      name: 'gpt-4.1',
-      family: 'openai',
       cost: 'high',
       speed: 'medium',
       quality: 'premium',
-      capabilities: ['text', 'reasoning', 'large-context'],
       bestFor: ['long documents', 'complex reasoning', 'research analysis'],
-      contextLength: '1M',
-      chineseFriendly: true,
     },
-
-    // OpenAI reasoning models
     o1: {
-      name: 'o1',
-      family: 'openai',
       cost: 'premium',
       speed: 'slow',
       quality: 'premium',
-      capabilities: ['advanced-reasoning', 'math', 'science', 'programming'],
       bestFor: [
         'complex problem solving',
         'mathematical proofs',
         'scientific research',
         'advanced coding',
       ],
-      contextLength: '200k',
-      chineseFriendly: true,
     },
     'o1-mini': {
-      name: 'o1-mini',
-      family: 'openai',
       cost: 'medium',
       speed: 'medium',
       quality: 'excellent',
-      capabilities: ['reasoning', 'math', 'programming'],
       bestFor: ['coding problems', 'math questions', 'logical reasoning'],
-      contextLength: '128k',
-      chineseFriendly: true,
     },
     'o3-mini': {
-      name: 'o3-mini',
-      family: 'openai',
       cost: 'medium',
       speed: 'medium',
       quality: 'excellent',
-      capabilities: ['reasoning', 'math', 'programming', 'improved-efficiency'],
       bestFor: ['programming tasks', 'algorithm design', 'technical problem solving'],
-      contextLength: '128k',
-      chineseFriendly: true,
     },
-
-    // Anthropic Claude series - Best for writing and analysis
     'claude-opus-4-20250514': {
-      name: 'claude-opus-4-20250514',
-      family: 'anthropic',
       cost: 'premium',
       speed: 'medium',
       quality: 'premium',
-      capabilities: ['text', 'analysis', 'writing', 'reasoning'],
       bestFor: ['creative writing', 'detailed analysis', 'research', 'professional content'],
-      contextLength: '200k',
-      chineseFriendly: true,
     },
     'claude-sonnet-4-20250514': {
-      name: 'claude-sonnet-4-20250514',
-      family: 'anthropic',
       cost: 'high',
       speed: 'fast',
       quality: 'excellent',
-      capabilities: ['text', 'analysis', 'writing'],
       bestFor: ['balanced tasks', 'content creation', 'data analysis', 'general AI assistance'],
-      contextLength: '200k',
-      chineseFriendly: true,
     },
-
-    // DeepSeek series - Excellent for Chinese and coding
     'deepseek-r1': {
-      name: 'deepseek-r1',
-      family: 'deepseek',
       cost: 'medium',
       speed: 'fast',
       quality: 'excellent',
-      capabilities: ['text', 'reasoning', 'chinese', 'programming'],
       bestFor: ['Chinese language tasks', 'programming', 'logical reasoning', 'local AI needs'],
-      contextLength: '32k',
-      chineseFriendly: true,
     },
     'deepseek-v3': {
-      name: 'deepseek-v3',
-      family: 'deepseek',
       cost: 'medium',
       speed: 'fast',
       quality: 'excellent',
-      capabilities: ['text', 'chinese', 'programming', 'math'],
       bestFor: ['Chinese content', 'code generation', 'technical documentation', 'education'],
-      contextLength: '64k',
-      chineseFriendly: true,
     },
-
-    // Gemini series - Best for multimodal and web search
     'gemini-2.5-pro-exp-03-25': {
-      name: 'gemini-2.5-pro-exp-03-25',
-      family: 'gemini',
       cost: 'high',
       speed: 'fast',
       quality: 'excellent',
-      capabilities: ['text', 'multimodal', 'web-search', 'real-time-info'],
       bestFor: ['web search', 'real-time information', 'multimodal analysis', 'research'],
-      contextLength: '1M',
-      chineseFriendly: true,
     },
-
-    // Qwen series - Chinese-optimized models
     'qwen-long': {
-      name: 'qwen-long',
-      family: 'qwen',
       cost: 'medium',
       speed: 'medium',
       quality: 'excellent',
-      capabilities: ['text', 'chinese', 'long-context'],
       bestFor: [
         'long Chinese documents',
         'Chinese literature analysis',
         'extensive Chinese content',
       ],
-      contextLength: '1M',
-      chineseFriendly: true,
     },
     'qwen3-235b-a22b': {
-      name: 'qwen3-235b-a22b',
-      family: 'qwen',
       cost: 'high',
       speed: 'medium',
       quality: 'premium',
-      capabilities: ['text', 'chinese', 'reasoning', 'large-model'],
       bestFor: [
         'complex Chinese tasks',
         'advanced reasoning in Chinese',
         'professional Chinese content',
       ],
-      contextLength: '32k',
-      chineseFriendly: true,
     },
-
-    // Doubao series - ByteDance's Chinese model
     'doubao-1-5-thinking-pro-250415': {
-      name: 'doubao-1-5-thinking-pro-250415',
-      family: 'doubao',
       cost: 'medium',
       speed: 'medium',
       quality: 'excellent',
-      capabilities: ['text', 'chinese', 'thinking', 'reasoning'],
       bestFor: [
         'Chinese reasoning tasks',
         'thoughtful analysis in Chinese',
         'Chinese educational content',
       ],
-      contextLength: '32k',
-      chineseFriendly: true,
     },
   };
 
@@ -2766,7 +3423,28 @@ export class APIZHProvider extends OpenAIBase {
    * Get detailed model information
    */
   static getModelInfo(modelName: string): ModelCapability | undefined {
-    return this.MODEL_CAPABILITIES[modelName];
+    const info = getRegistryModelInfo('apizh', modelName, loadConfig());
+    if (!info) {
+      return undefined;
+    }
+
+    const capabilities = ['text'];
+    if (info.vision) capabilities.push('vision');
+    if (info.reasoningEffort) capabilities.push('reasoning');
+    if (info.webSearch) capabilities.push('web-search');
+    if (info.contextWindow >= 1_000_000) capabilities.push('long-context');
+
+    return {
+      name: modelName,
+      family:
+        APIZH_MODEL_FAMILIES.find(([prefix]) => prefix.test(modelName))?.[1] ??
+        modelName.split('-')[0],
+      contextWindow: info.contextWindow,
+      capabilities,
+      ...this.MODEL_PROFILES[modelName],
+      // Models in the registry without a profile have no guidance yet
+      bestFor: this.MODEL_PROFILES[modelName]?.bestFor ?? [],
+    };
   }
 
   /**
@@ -2775,12 +3453,15 @@ export class APIZHProvider extends OpenAIBase {
   static getModelsByCategory(): Record<string, string[]> {
     const categories: Record<string, string[]> = {};
 
-    Object.entries(this.MODEL_CAPABILITIES).forEach(([modelName, info]) => {
-      if (!categories[info.family]) {
-        categories[info.family] = [];
-      }
-      categories[info.family].push(modelName);
-    });
+    listModels(loadConfig())
+      .filter((info) => info.provider === 'apizh')
+      .forEach(({ model }) => {
+        const { family } = this.getModelInfo(model)!;
+        if (!categories[family]) {
+          categories[family] = [];
+        }
+        categories[family].push(model);
+      });
 
     return categories;
   }
@@ -2848,8 +3529,316 @@ export class APIZHProvider extends OpenAIBase {
     };
   }
 }
+// Ollama provider implementation using the daemon's native API rather than its OpenAI
+// compatibility layer, which does not allow the context window to be configured
+export class OllamaProvider extends BaseProvider {
+  // Ollama defaults num_ctx to 2048 and silently drops anything beyond it
+  private static readonly MIN_CONTEXT_SIZE = 2048;
+  // Cap on the output budget reserved in the context window. The whole window is allocated
+  // up front, so reserving the full maxTokens for a short question wastes a lot of memory.
+  private static readonly MAX_OUTPUT_RESERVE = 8192;
+  // Rough estimate used when no token count was provided by the command
+  private static readonly CHARS_PER_TOKEN = 4;
+
+  private readonly host: string;
+  private readonly contextLengths = new Map<string, Promise<number | undefined>>();
+
+  constructor() {
+    super();
+    this.host = getOllamaHost();
+    // Initialize the promise in constructor
+    this.availableModels = this.initializeModels();
+    // A failed lookup is reported by getModel() when a model is requested, not on construction
+    this.availableModels.catch(() => {});
+  }
+
+  private async initializeModels(): Promise<Set<string>> {
+    try {
+      const response = await fetch(`${this.host}/api/tags`);
+
+      if (!response.ok) {
+        throw new NetworkError(`Failed to fetch Ollama models: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      if (!data?.models) {
+        console.warn('Unexpected API response format:', data);
+        return new Set();
+      }
+      // Installed models are listed with their tag, e.g. llama3.1:latest
+      return new Set(data.models.map((model: any) => model.name));
+    } catch (error) {
+      throw new NetworkError(
+        `Failed to fetch installed Ollama models from ${this.host}. Is the Ollama daemon running?`,
+        error
+      );
+    }
+  }
+
+  protected async getModel(options: ModelOptions | undefined): Promise<string> {
+    // Like `ollama run`, accept a model name without a tag and resolve it to :latest
+    if (options?.model && !options.model.includes(':') && this.availableModels) {
+      const availableModels = await abortable(this.availableModels, options.signal);
+      if (availableModels.has(`${options.model}:latest`)) {
+        return `${options.model}:latest`;
+      }
+    }
+    return super.getModel(options);
+  }
+
+  async supportsWebSearch(
+    modelName: string
+  ): Promise<{ supported: boolean; model?: string; error?: string }> {
+    return {
+      supported: false,
+      error: 'Ollama does not support web search capabilities',
+    };
+  }
+
+  /**
+   * Looks up the maximum context length of a model from /api/show. Returns undefined if the
+   * daemon does not report it, in which case the requested context size is used unchecked.
+   */
+  private getModelContextLength(model: string): Promise<number | undefined> {
+    let contextLength = this.contextLengths.get(model);
+    if (!contextLength) {
+      contextLength = fetch(`${this.host}/api/show`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model }),
+      })
+        .then(async (response) => {
+          if (!response.ok) {
+            return undefined;
+          }
+          const data = await response.json();
+          // model_info keys are prefixed with the architecture, e.g. llama.context_length
+          const key = Object.keys(data?.model_info ?? {}).find((k) =>
+            k.endsWith('.context_length')
+          );
+          return key ? Number(data.model_info[key]) : undefined;
+        })
+        .catch(() => undefined);
+      this.contextLengths.set(model, contextLength);
+    }
+    return contextLength;
+  }
+
+  /**
+   * Sizes num_ctx to fit the prompt plus room for the answer, rounded up to a multiple of
+   * 1024 and capped at the model's maximum context length.
+   */
+  private async getContextSize(
+    model: string,
+    prompt: string,
+    systemPrompt: string | undefined,
+    options: ModelOptions
+  ): Promise<number> {
+    const estimatedPromptTokens = Math.ceil(
+      (prompt.length + (systemPrompt?.length ?? 0)) / OllamaProvider.CHARS_PER_TOKEN
+    );
+    const promptTokens = Math.max(options.tokenCount ?? 0, estimatedPromptTokens);
+    const requiredTokens =
+      promptTokens + Math.min(options.maxTokens, OllamaProvider.MAX_OUTPUT_RESERVE);
+    const contextSize = Math.max(
+      OllamaProvider.MIN_CONTEXT_SIZE,
+      Math.ceil(requiredTokens / 1024) * 1024
+    );
+
+    const modelContextLength = await abortable(this.getModelContextLength(model), options.signal);
+    if (modelContextLength && contextSize > modelContextLength) {
+      console.warn(
+        `Prompt needs ~${requiredTokens} tokens but ${model} supports at most ${modelContextLength}. ` +
+          `Ollama will truncate the prompt, consider a model with a larger context window or use --subdir to reduce the context.`
+      );
+      return modelContextLength;
+    }
+    return contextSize;
+  }
+
+  private async buildChatRequest(
+    model: string,
+    prompt: string,
+    options: ModelOptions,
+    stream: boolean
+  ): Promise<Record<string, unknown>> {
+    const systemPrompt = this.getSystemPrompt(options);
+    const numCtx = await this.getContextSize(model, prompt, systemPrompt, options);
+    this.debugLog(options, `Using num_ctx: ${numCtx}`);
+
+    return {
+      model,
+      messages: [
+        ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
+        {
+          role: 'user',
+          content: prompt,
+          // Ollama takes raw base64 images next to the message text
+          ...(options.images?.length ? { images: options.images.map((image) => image.data) } : {}),
+        },
+      ],
+      stream,
+      // Ollama constrains generation to the JSON schema when one is given
+      ...(options.jsonSchema ? { format: options.jsonSchema } : {}),
+      options: {
+        num_ctx: numCtx,
+        num_predict: options.maxTokens,
+      },
+    };
+  }
+
+  private async postChat(
+    requestBody: Record<string, unknown>,
+    options: ModelOptions
+  ): Promise<Response> {
+    this.debugLog(options, 'Request body:', this.truncateForLogging(requestBody));
+
+    const response = await fetch(`${this.host}/api/chat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(requestBody),
+      signal: getRequestSignal(options),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new NetworkError(`Ollama API error (${response.status}): ${errorText}`);
+    }
+    return response;
+  }
+
+  async executePrompt(prompt: string, options: ModelOptions): Promise<string> {
+    const model = await this.getModel(options);
+    const startTime = Date.now();
+
+    this.logRequestStart(
+      options,
+      model,
+      options.maxTokens,
+      this.getSystemPrompt(options),
+      `${this.host}/api/chat`
+    );
+
+    try {
+      const requestBody = await this.buildChatRequest(model, prompt, options, false);
+      const response = await this.postChat(requestBody, options);
+
+      const data = await response.json();
+      this.debugLog(options, `API call completed in ${Date.now() - startTime}ms`);
+      this.debugLog(options, 'Response:', this.truncateForLogging(data));
+
+      if (data.prompt_eval_count !== undefined || data.eval_count !== undefined) {
+        this.setTokenUsage(data.prompt_eval_count ?? 0, data.eval_count ?? 0);
+      }
+
+      const content = data.message?.content;
+      if (!content) {
+        throw new ProviderError('Ollama returned an empty response');
+      }
+      return content;
+    } catch (error) {
+      this.rethrowProviderError(error, model, options);
+    }
+  }
+
+  async *streamPrompt(
+    prompt: string,
+    options: ModelOptions
+  ): AsyncGenerator<string, void, unknown> {
+    const model = await this.getModel(options);
+    const startTime = Date.now();
+
+    this.logRequestStart(
+      options,
+      model,
+      options.maxTokens,
+      this.getSystemPrompt(options),
+      `${this.host}/api/chat`
+    );
+
+    try {
+      const requestBody = await this.buildChatRequest(model, prompt, options, true);
+      const response = await this.postChat(requestBody, options);
+
+      if (!response.body) {
+        throw new ProviderError('Ollama returned an empty response');
+      }
+
+      // Ollama streams newline-delimited JSON objects rather than server-sent events
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let receivedContent = false;
+      let done = false;
+      while (!done) {
+        const result = await reader.read();
+        done = result.done;
+        buffer += result.done ? decoder.decode() : decoder.decode(result.value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = done ? '' : (lines.pop() ?? '');
+        for (const line of lines) {
+          if (!line.trim()) {
+            continue;
+          }
+          const chunk = JSON.parse(line);
+          if (chunk.error) {
+            throw new ProviderError(`Ollama returned an error: ${chunk.error}`);
+          }
+          const delta = chunk.message?.content;
+          if (delta) {
+            receivedContent = true;
+            yield delta;
+          }
+          if (chunk.done) {
+            this.setTokenUsage(chunk.prompt_eval_count ?? 0, chunk.eval_count ?? 0);
+          }
+        }
+      }
+
+      this.debugLog(options, `Streaming completed in ${Date.now() - startTime}ms`);
+
+      if (!receivedContent) {
+        throw new ProviderError('Ollama returned an empty response');
+      }
+    } catch (error) {
+      this.rethrowProviderError(error, model, options);
+    }
+  }
+}
+
 // Factory function to create providers
 export function createProvider(provider: Provider): BaseModelProvider {
+  // Replaying a cassette never reaches the provider, so no API key or network is needed
+  const replayPath = getReplayCassettePath();
+  if (replayPath) {
+    return withCostAccounting(provider, new ReplayProvider(provider, replayPath));
+  }
+
+  // Cached responses never reach the provider, so only real calls take a rate limit slot
+  const instance = withCostAccounting(
+    provider,
+    withRateLimitScheduling(provider, withAuditLog(provider, createProviderInstance(provider)))
+  );
+
+  // Recordings must capture real responses, so they bypass the response cache
+  const recordPath = getRecordCassettePath();
+  if (recordPath) {
+    return withCassetteRecording(provider, instance, recordPath);
+  }
+  return withResponseCache(provider, instance);
+}
+
+function createProviderInstance(provider: Provider): BaseModelProvider {
+  const customProvider = getCustomProvider(provider);
+  if (customProvider) {
+    return customProvider.kind === 'anthropic'
+      ? new CustomAnthropicProvider(customProvider)
+      : new CustomOpenAIProvider(customProvider);
+  }
+
   switch (provider) {
     case 'gemini': {
       const apiKey = process.env.GEMINI_API_KEY;
@@ -2891,6 +3880,8 @@ export function createProvider(provider: Provider): BaseModelProvider {
     case 'apizh-cost':
     case 'apizh-nix':
       return new APIZHProvider();
+    case 'ollama':
+      return new OllamaProvider();
     default:
       throw exhaustiveMatchGuard(
         provider,
@@ -0,0 +1,218 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import type { Provider } from '../types';
+import { FileError, ProviderError } from '../errors';
+import type { BaseModelProvider, ModelOptions } from './base';
+import { getPromptFingerprint } from './responseCache';
+import type { z } from 'zod';
+import { executeStructuredPrompt, type StructuredOptions } from './structured';
+
+// Cassette written by VIBE_TOOLS_RECORD=1 when no explicit path is given
+const DEFAULT_CASSETTE_PATH = 'vibe-tools.cassette.json';
+
+const PROMPT_PREVIEW_LENGTH = 200;
+
+interface CassetteInteraction {
+  fingerprint: string;
+  provider: Provider;
+  model: string;
+  promptPreview: string; // Start of the prompt so cassettes can be reviewed without storing huge contexts
+  response: string;
+  tokenUsage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  recordedAt: string;
+}
+
+interface Cassette {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+let loadedCassette: { path: string; cassette: Cassette } | undefined;
+// Fingerprints recorded by this process, older interactions with the same fingerprint are replaced
+const recordedFingerprints = new Set<string>();
+// Next interaction to replay per fingerprint, so repeated identical prompts replay in order
+const replayPositions = new Map<string, number>();
+
+/**
+ * Path of the cassette to replay from, set with VIBE_TOOLS_REPLAY=path. Replay takes precedence
+ * over recording when both variables are set.
+ */
+export function getReplayCassettePath(): string | undefined {
+  const replay = process.env.VIBE_TOOLS_REPLAY;
+  return replay ? resolve(replay) : undefined;
+}
+
+/**
+ * Path of the cassette to record into. VIBE_TOOLS_RECORD=1 records into vibe-tools.cassette.json
+ * in the current directory, any other value is used as the cassette path.
+ */
+export function getRecordCassettePath(): string | undefined {
+  const record = process.env.VIBE_TOOLS_RECORD;
+  if (!record || record === '0' || record === 'false' || getReplayCassettePath()) {
+    return undefined;
+  }
+  return resolve(record === '1' || record === 'true' ? DEFAULT_CASSETTE_PATH : record);
+}
+
+function loadCassette(path: string, required: boolean): Cassette {
+  if (loadedCassette?.path === path) {
+    return loadedCassette.cassette;
+  }
+
+  let cassette: Cassette = { version: 1, interactions: [] };
+  if (existsSync(path)) {
+    try {
+      cassette = JSON.parse(readFileSync(path, 'utf-8')) as Cassette;
+    } catch (error) {
+      throw new FileError(`Failed to read cassette file: ${path}`, error);
+    }
+  } else if (required) {
+    throw new FileError(`Cassette file not found: ${path}`);
+  }
+
+  loadedCassette = { path, cassette };
+  return cassette;
+}
+
+/**
+ * Providers that have recorded interactions in the replay cassette. Returns undefined when not
+ * replaying, in which case provider availability is determined by API keys as usual.
+ */
+export function getCassetteProviders(): Set<Provider> | undefined {
+  const path = getReplayCassettePath();
+  if (!path) {
+    return undefined;
+  }
+  return new Set(loadCassette(path, true).interactions.map((interaction) => interaction.provider));
+}
+
+function recordInteraction(path: string, interaction: CassetteInteraction): void {
+  const cassette = loadCassette(path, false);
+  if (!recordedFingerprints.has(interaction.fingerprint)) {
+    recordedFingerprints.add(interaction.fingerprint);
+    cassette.interactions = cassette.interactions.filter(
+      (existing) => existing.fingerprint !== interaction.fingerprint
+    );
+  }
+  cassette.interactions.push(interaction);
+
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify(cassette, null, 2));
+  } catch (error) {
+    throw new FileError(`Failed to write cassette file: ${path}`, error);
+  }
+}
+
+/**
+ * Wraps a provider instance so every prompt and its response are recorded into the cassette.
+ */
+export function withCassetteRecording<T extends BaseModelProvider>(
+  provider: Provider,
+  instance: T,
+  path: string
+): T {
+  const executePrompt = instance.executePrompt.bind(instance);
+  const streamPrompt = instance.streamPrompt?.bind(instance);
+
+  const record = (prompt: string, options: ModelOptions, response: string) =>
+    recordInteraction(path, {
+      fingerprint: getPromptFingerprint(provider, prompt, options),
+      provider,
+      model: options.model,
+      promptPreview: prompt.slice(0, PROMPT_PREVIEW_LENGTH),
+      response,
+      tokenUsage: instance.tokenUsage,
+      recordedAt: new Date().toISOString(),
+    });
+
+  instance.executePrompt = async (prompt: string, options?: ModelOptions) => {
+    const response = await executePrompt(prompt, options);
+    if (options) {
+      record(prompt, options, response);
+    }
+    return response;
+  };
+
+  if (streamPrompt) {
+    instance.streamPrompt = async function* (prompt: string, options: ModelOptions) {
+      let response = '';
+      for await (const chunk of streamPrompt(prompt, options)) {
+        response += chunk;
+        yield chunk;
+      }
+      record(prompt, options, response);
+    };
+  }
+
+  return instance;
+}
+
+/**
+ * Answers prompts from a recorded cassette instead of calling the provider, so commands can run
+ * deterministically without network access or API keys.
+ */
+export class ReplayProvider implements BaseModelProvider {
+  tokenUsage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+
+  constructor(
+    private readonly provider: Provider,
+    private readonly path: string
+  ) {}
+
+  async executePrompt(prompt: string, options?: ModelOptions): Promise<string> {
+    if (!options) {
+      throw new ProviderError('Replaying a cassette requires model options');
+    }
+
+    const fingerprint = getPromptFingerprint(this.provider, prompt, options);
+    const matches = loadCassette(this.path, true).interactions.filter(
+      (interaction) => interaction.fingerprint === fingerprint
+    );
+    if (matches.length === 0) {
+      throw new ProviderError(
+        `No recorded response for ${this.provider}/${options.model} in cassette ${this.path}. ` +
+          'The prompt or options differ from the recording; re-record it with VIBE_TOOLS_RECORD.'
+      );
+    }
+
+    // Replay identical prompts in recorded order, repeating the last one if asked again
+    const position = replayPositions.get(fingerprint) ?? 0;
+    replayPositions.set(fingerprint, position + 1);
+    const interaction = matches[Math.min(position, matches.length - 1)];
+
+    if (options.debug) {
+      console.log(`[ReplayProvider] Replaying ${this.provider}/${options.model} (${fingerprint})`);
+    }
+    this.tokenUsage = interaction.tokenUsage;
+    return interaction.response;
+  }
+
+  async executeStructured<T>(
+    prompt: string,
+    schema: z.ZodType<T>,
+    options: StructuredOptions
+  ): Promise<T> {
+    return executeStructuredPrompt(this, prompt, schema, options);
+  }
+
+  async supportsWebSearch(
+    modelName: string
+  ): Promise<{ supported: boolean; model?: string; error?: string }> {
+    // Whether web search was used is part of the recorded fingerprint
+    return { supported: true, model: modelName };
+  }
+
+  // The ask command resolves APIZH default models through the provider; keep the requested model
+  async getModel(options: ModelOptions): Promise<string> {
+    return options.model;
+  }
+}
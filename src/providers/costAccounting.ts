@@ -0,0 +1,189 @@
+import type { Provider } from '../types';
+import { loadConfig } from '../config';
+import { BudgetExceededError } from '../errors';
+import type { BaseModelProvider, ModelOptions } from './base';
+import { calculateCost, getModelPricing } from './pricing';
+
+// Rough token estimate used when a provider does not report usage and for pre-flight budget checks
+const CHARS_PER_TOKEN = 4;
+
+interface UsageRecord {
+  provider: Provider;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  cost?: number; // Undefined when the model has no known price
+  estimated: boolean; // True when token counts were estimated rather than reported by the provider
+}
+
+const usageRecords: UsageRecord[] = [];
+
+// Set from the CLI by --max-cost, takes precedence over config.budget.maxCost
+let costLimit: number | undefined;
+
+export function setCostLimit(maxCost: number): void {
+  costLimit = maxCost;
+}
+
+function getCostLimit(): number | undefined {
+  return costLimit ?? loadConfig().budget?.maxCost;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function getTotalCost(): number {
+  return usageRecords.reduce((sum, record) => sum + (record.cost ?? 0), 0);
+}
+
+function checkBudget(provider: Provider, prompt: string, options: ModelOptions): void {
+  const maxCost = getCostLimit();
+  if (maxCost === undefined) {
+    return;
+  }
+
+  const pricing = getModelPricing(provider, options.model, loadConfig());
+  if (!pricing) {
+    console.error(
+      `Warning: no price known for ${provider}/${options.model}, the budget of $${maxCost.toFixed(2)} cannot be enforced for this call. Add it to "pricing" in vibe-tools.config.json.`
+    );
+    return;
+  }
+
+  const inputTokens = Math.max(
+    estimateTokens(prompt) + estimateTokens(options.systemPrompt ?? ''),
+    options.tokenCount ?? 0
+  );
+  const estimatedCost = calculateCost(pricing, inputTokens, 0);
+  const spentCost = getTotalCost();
+  if (spentCost + estimatedCost > maxCost) {
+    throw new BudgetExceededError(
+      `${provider}/${options.model}`,
+      estimatedCost,
+      spentCost,
+      maxCost
+    );
+  }
+}
+
+function recordUsage(
+  provider: Provider,
+  instance: BaseModelProvider,
+  prompt: string,
+  options: ModelOptions,
+  response: string | undefined
+): void {
+  let promptTokens: number;
+  let completionTokens: number;
+  let estimated = false;
+  if (instance.tokenUsage) {
+    ({ promptTokens, completionTokens } = instance.tokenUsage);
+  } else if (response !== undefined) {
+    promptTokens = estimateTokens(prompt) + estimateTokens(options.systemPrompt ?? '');
+    completionTokens = estimateTokens(response);
+    estimated = true;
+  } else {
+    // The call failed before the provider reported usage, assume nothing was billed
+    return;
+  }
+
+  const pricing = getModelPricing(provider, options.model, loadConfig());
+  const record: UsageRecord = {
+    provider,
+    model: options.model,
+    promptTokens,
+    completionTokens,
+    cost: pricing ? calculateCost(pricing, promptTokens, completionTokens) : undefined,
+    estimated,
+  };
+  usageRecords.push(record);
+
+  if (options.debug) {
+    console.log(
+      `[cost] ${provider}/${options.model}: ${promptTokens} prompt + ${completionTokens} completion tokens, ${formatCost(record.cost)}`
+    );
+  }
+}
+
+function formatCost(cost: number | undefined): string {
+  if (cost === undefined) {
+    return 'unknown cost';
+  }
+  if (cost > 0 && cost < 0.0001) {
+    return '<$0.0001';
+  }
+  return `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+/**
+ * Wraps a provider instance so every prompt is checked against the budget before it is sent and
+ * its token usage and cost are recorded for the usage footer.
+ */
+export function withCostAccounting<T extends BaseModelProvider>(
+  provider: Provider,
+  instance: T
+): T {
+  const executePrompt = instance.executePrompt.bind(instance);
+  const streamPrompt = instance.streamPrompt?.bind(instance);
+
+  instance.executePrompt = async (prompt: string, options?: ModelOptions) => {
+    if (!options) {
+      return executePrompt(prompt, options);
+    }
+    checkBudget(provider, prompt, options);
+    // Clear usage from any previous call so a provider that doesn't report usage is not double counted
+    instance.tokenUsage = undefined;
+    let response: string | undefined;
+    try {
+      response = await executePrompt(prompt, options);
+      return response;
+    } finally {
+      recordUsage(provider, instance, prompt, options, response);
+    }
+  };
+
+  if (streamPrompt) {
+    instance.streamPrompt = async function* (prompt: string, options: ModelOptions) {
+      checkBudget(provider, prompt, options);
+      instance.tokenUsage = undefined;
+      let response = '';
+      let completed = false;
+      try {
+        for await (const chunk of streamPrompt(prompt, options)) {
+          response += chunk;
+          yield chunk;
+        }
+        completed = true;
+      } finally {
+        recordUsage(provider, instance, prompt, options, completed ? response : undefined);
+      }
+    };
+  }
+
+  return instance;
+}
+
+/**
+ * Summarises token usage and cost of all provider calls made by the current command. Returns an
+ * empty string when no provider was called.
+ */
+export function formatUsageFooter(): string {
+  if (usageRecords.length === 0) {
+    return '';
+  }
+
+  const lines = usageRecords.map(
+    (record) =>
+      `  ${record.provider}/${record.model}: ${record.promptTokens.toLocaleString()} prompt + ${record.completionTokens.toLocaleString()} completion tokens${record.estimated ? ' (estimated)' : ''}, ${formatCost(record.cost)}`
+  );
+  const hasUnknownCost = usageRecords.some((record) => record.cost === undefined);
+  const total = `${formatCost(getTotalCost())}${hasUnknownCost ? ' (excluding models with unknown prices)' : ''}`;
+  const maxCost = getCostLimit();
+
+  return [
+    'Usage:',
+    ...lines,
+    `Total cost: ${total}${maxCost !== undefined ? ` of $${maxCost.toFixed(2)} budget` : ''}`,
+  ].join('\n');
+}
@@ -0,0 +1,59 @@
+import { customProviderSchema, type CustomProviderConfig } from '../types';
+import { loadConfig } from '../config';
+import { ProviderError } from '../errors';
+
+// Sent when a custom provider declares no apiKeyEnv, the SDKs refuse to send requests without a key
+const KEYLESS_API_KEY = 'none';
+
+/**
+ * Providers declared in `customProviders` of vibe-tools.config.json. Invalid declarations fail
+ * here with the offending entry instead of later when the provider is used.
+ */
+export function getCustomProviders(): CustomProviderConfig[] {
+  const declared: unknown = loadConfig().customProviders ?? [];
+  if (!Array.isArray(declared)) {
+    throw new ProviderError('customProviders in vibe-tools.config.json must be an array');
+  }
+
+  const names = new Set<string>();
+  return declared.map((entry, index) => {
+    const result = customProviderSchema.safeParse(entry);
+    if (!result.success) {
+      const label = typeof entry?.name === 'string' ? `"${entry.name}"` : `#${index + 1}`;
+      const issues = result.error.issues
+        .map((issue) => `${issue.path.join('.') || 'entry'} ${issue.message}`)
+        .join(', ');
+      throw new ProviderError(
+        `Invalid custom provider ${label} in vibe-tools.config.json: ${issues}`
+      );
+    }
+    if (names.has(result.data.name)) {
+      throw new ProviderError(
+        `Custom provider "${result.data.name}" is declared more than once in vibe-tools.config.json`
+      );
+    }
+    names.add(result.data.name);
+    return result.data;
+  });
+}
+
+export function getCustomProvider(name: string): CustomProviderConfig | undefined {
+  return getCustomProviders().find((definition) => definition.name === name);
+}
+
+export function isCustomProviderAvailable(definition: CustomProviderConfig): boolean {
+  return !definition.apiKeyEnv || !!process.env[definition.apiKeyEnv];
+}
+
+export function getCustomProviderApiKey(definition: CustomProviderConfig): string {
+  if (!definition.apiKeyEnv) {
+    return KEYLESS_API_KEY;
+  }
+  const apiKey = process.env[definition.apiKeyEnv];
+  if (!apiKey) {
+    throw new ProviderError(
+      `API key for ${definition.name} is not set. Please set the ${definition.apiKeyEnv} environment variable in your .vibe-tools.env file located in your home directory (~/.vibe-tools/.env).`
+    );
+  }
+  return apiKey;
+}
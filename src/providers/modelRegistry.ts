@@ -0,0 +1,308 @@
+import type { Config, ModelPricing, Provider, ReasoningEffort } from '../types';
+import { getModelPricing } from './pricing';
+import { getCustomProvider, getCustomProviders } from './customProviders';
+
+export interface ModelCapabilities {
+  contextWindow: number; // Maximum prompt plus completion tokens
+  reasoningEffort: boolean; // Accepts --reasoning-effort (OpenAI reasoning effort or Claude extended thinking)
+  vision: boolean; // Accepts image input
+}
+
+export interface ModelInfo extends ModelCapabilities {
+  provider: Provider;
+  model: string;
+  webSearch: boolean; // The provider can ground answers for this model with web search
+  pricing?: ModelPricing;
+  defaultFor: ModelRole[];
+}
+
+// Commands and command steps that pick their own default model
+export type ModelRole = 'default' | 'ask' | 'web' | 'planFile' | 'planThinking';
+
+/**
+ * Capabilities by model family. Models are matched by the longest prefix of the model name
+ * (without any `provider/` namespace or `:tag`), the same way as the price table, so dated
+ * snapshots such as `claude-sonnet-4-20250514` use the entry of `claude-sonnet-4`.
+ */
+const MODEL_FAMILIES: Record<string, ModelCapabilities> = {
+  // OpenAI
+  'gpt-4o': { contextWindow: 128_000, reasoningEffort: false, vision: true },
+  'gpt-4.1': { contextWindow: 1_047_576, reasoningEffort: false, vision: true },
+  o1: { contextWindow: 200_000, reasoningEffort: true, vision: true },
+  'o1-mini': { contextWindow: 128_000, reasoningEffort: true, vision: false },
+  o3: { contextWindow: 200_000, reasoningEffort: true, vision: true },
+  'o3-mini': { contextWindow: 200_000, reasoningEffort: true, vision: false },
+  'o4-mini': { contextWindow: 200_000, reasoningEffort: true, vision: true },
+  // Anthropic
+  'claude-opus-4': { contextWindow: 200_000, reasoningEffort: true, vision: true },
+  'claude-sonnet-4': { contextWindow: 200_000, reasoningEffort: true, vision: true },
+  'claude-3-7-sonnet': { contextWindow: 200_000, reasoningEffort: false, vision: true },
+  'claude-3-5-sonnet': { contextWindow: 200_000, reasoningEffort: false, vision: true },
+  'claude-3-5-haiku': { contextWindow: 200_000, reasoningEffort: false, vision: false },
+  // Google
+  'gemini-2.5-pro': { contextWindow: 1_048_576, reasoningEffort: false, vision: true },
+  'gemini-2.5-flash': { contextWindow: 1_048_576, reasoningEffort: false, vision: true },
+  'gemini-2.0-flash': { contextWindow: 1_048_576, reasoningEffort: false, vision: true },
+  // Perplexity
+  sonar: { contextWindow: 128_000, reasoningEffort: false, vision: false },
+  'sonar-pro': { contextWindow: 200_000, reasoningEffort: false, vision: false },
+  'r1-1776': { contextWindow: 128_000, reasoningEffort: false, vision: false },
+  // xAI
+  'grok-3': { contextWindow: 131_072, reasoningEffort: false, vision: false },
+  'grok-4': { contextWindow: 256_000, reasoningEffort: false, vision: true },
+  // Models served through APIZH
+  'deepseek-r1': { contextWindow: 64_000, reasoningEffort: false, vision: false },
+  'deepseek-v3': { contextWindow: 64_000, reasoningEffort: false, vision: false },
+  'qwen-long': { contextWindow: 1_000_000, reasoningEffort: false, vision: false },
+  qwen3: { contextWindow: 32_768, reasoningEffort: false, vision: false },
+  'doubao-1-5-thinking-pro': { contextWindow: 32_768, reasoningEffort: false, vision: false },
+  // Ollama
+  'llama3.1': { contextWindow: 128_000, reasoningEffort: false, vision: false },
+};
+
+interface ProviderModel {
+  model: string;
+  webSearch?: boolean;
+}
+
+// The specialised APIZH providers use the same relay and models as `apizh`
+type RegistryProvider = Exclude<Provider, `apizh-${string}`>;
+
+/**
+ * Models known to work with each provider. Providers accept other models as well, these are the
+ * ones suggested in errors and listed by `vibe-tools models`.
+ */
+const PROVIDER_MODELS: Record<RegistryProvider, ProviderModel[]> = {
+  openai: [
+    { model: 'gpt-4.1' },
+    { model: 'gpt-4.1-mini' },
+    { model: 'gpt-4o' },
+    { model: 'gpt-4o-mini' },
+    { model: 'o3' },
+    { model: 'o3-mini' },
+    { model: 'o4-mini' },
+  ],
+  anthropic: [{ model: 'claude-opus-4-20250514' }, { model: 'claude-sonnet-4-20250514' }],
+  gemini: [
+    { model: 'gemini-2.5-pro', webSearch: true },
+    { model: 'gemini-2.5-flash', webSearch: true },
+    { model: 'gemini-2.5-flash-lite-preview-06-17', webSearch: true },
+  ],
+  perplexity: [
+    { model: 'sonar', webSearch: true },
+    { model: 'sonar-pro', webSearch: true },
+    { model: 'sonar-reasoning-pro', webSearch: true },
+    { model: 'sonar-deep-research', webSearch: true },
+    { model: 'r1-1776' },
+  ],
+  openrouter: [
+    { model: 'google/gemini-2.5-pro' },
+    { model: 'google/gemini-2.5-flash' },
+    { model: 'google/gemini-2.5-flash-lite-preview-06-17' },
+    { model: 'openai/gpt-4.1' },
+    { model: 'openai/o3' },
+    { model: 'anthropic/claude-sonnet-4' },
+    { model: 'perplexity/sonar', webSearch: true },
+    { model: 'perplexity/sonar-reasoning-pro', webSearch: true },
+    { model: 'deepseek/deepseek-r1:free' },
+  ],
+  modelbox: [
+    { model: 'google/gemini-2.5-pro', webSearch: true },
+    { model: 'google/gemini-2.5-flash', webSearch: true },
+    { model: 'google/gemini-2.5-flash-lite-preview-06-17', webSearch: true },
+    { model: 'openai/gpt-4.1' },
+    { model: 'anthropic/claude-sonnet-4-20250514' },
+    { model: 'perplexity/sonar-pro', webSearch: true },
+  ],
+  xai: [{ model: 'grok-3-latest' }, { model: 'grok-3-mini-latest' }, { model: 'grok-4' }],
+  apizh: [
+    { model: 'gpt-4o' },
+    { model: 'gpt-4o-mini' },
+    { model: 'gpt-4.1' },
+    { model: 'gpt-4.1-2025-04-14' },
+    { model: 'o1' },
+    { model: 'o1-mini' },
+    { model: 'o3' },
+    { model: 'o3-mini' },
+    { model: 'claude-opus-4-20250514' },
+    { model: 'claude-sonnet-4-20250514' },
+    { model: 'deepseek-r1' },
+    { model: 'deepseek-v3' },
+    { model: 'gemini-2.5-pro-exp-03-25', webSearch: true },
+    { model: 'qwen-long' },
+    { model: 'qwen3-235b-a22b' },
+    { model: 'doubao-1-5-thinking-pro-250415' },
+  ],
+  ollama: [{ model: 'llama3.1' }],
+};
+
+/**
+ * Default model per provider for each role. Roles other than `default` only list the providers
+ * whose model differs and fall back to the `default` entry.
+ */
+const DEFAULT_MODELS: Record<ModelRole, Partial<Record<Provider, string>>> = {
+  default: {
+    perplexity: 'sonar-pro',
+    gemini: 'gemini-2.5-pro',
+    openai: 'gpt-4.1', // largest context window (1M tokens) so best chance of working
+    anthropic: 'claude-sonnet-4-20250514',
+    openrouter: 'google/gemini-2.5-pro', // largest context window (1M tokens) so best chance of working
+    modelbox: 'google/gemini-2.5-pro', // largest context window (1M tokens) so best chance of working
+    xai: 'grok-3-latest',
+    apizh: 'gpt-4o-mini', // Default model for Chinese API relay service
+    'apizh-coding': 'o3', // 编程和代码生成 - 最强编程模型
+    'apizh-chinese': 'qwen3-235b-a22b', // 中文内容处理
+    'apizh-analysis': 'claude-sonnet-4-20250514', // 数据分析和研究
+    'apizh-creative': 'claude-opus-4-20250514', // 创意写作
+    'apizh-math': 'o1', // 数学和科学推理
+    'apizh-web': 'gemini-2.5-pro-exp-03-25', // 网络搜索
+    'apizh-reasoning': 'o1-mini', // 逻辑推理
+    'apizh-cost': 'gpt-4o-mini', // 成本效益优化
+    'apizh-nix': 'gpt-4.1-2025-04-14', // Nix包管理
+    ollama: 'llama3.1', // Local model served by the Ollama daemon
+  },
+  ask: {
+    openrouter: 'openai/gpt-4.1',
+    modelbox: 'openai/gpt-4.1',
+  },
+  web: {
+    apizh: 'gemini-2.5-pro-exp-03-25',
+  },
+  planFile: {
+    gemini: 'gemini-2.5-flash', // largest context window (1M tokens)
+    openrouter: 'google/gemini-2.5-flash', // largest context window (1M tokens)
+    modelbox: 'google/gemini-2.5-flash',
+  },
+  planThinking: {
+    openai: 'o3',
+    perplexity: 'r1-1776',
+    openrouter: 'openai/o3',
+    modelbox: 'anthropic/claude-sonnet-4-20250514',
+  },
+};
+
+function getRegistryProvider(provider: Provider): RegistryProvider {
+  return provider.startsWith('apizh-') ? 'apizh' : (provider as RegistryProvider);
+}
+
+function getModelFamilyName(model: string): string {
+  return (model.includes('/') ? model.slice(model.lastIndexOf('/') + 1) : model)
+    .toLowerCase()
+    .replace(/:.*$/, '');
+}
+
+export function getDefaultModel(provider: Provider, role: ModelRole = 'default'): string {
+  return (
+    DEFAULT_MODELS[role][provider] ??
+    DEFAULT_MODELS.default[provider] ??
+    // Custom providers default to the first model they declare
+    getCustomProvider(provider)?.models?.[0] ??
+    ''
+  );
+}
+
+/**
+ * Capabilities of a model, looked up by model family. Returns undefined for unknown models.
+ */
+export function getModelCapabilities(model: string): ModelCapabilities | undefined {
+  const name = getModelFamilyName(model);
+  const match = Object.keys(MODEL_FAMILIES)
+    .filter((family) => name.startsWith(family))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_FAMILIES[match] : undefined;
+}
+
+// Compact context window size for listings, e.g. 128k or 1M
+export function formatContextWindow(tokens: number): string {
+  return tokens >= 1_000_000
+    ? `${Math.round(tokens / 1_000_000)}M`
+    : `${Math.round(tokens / 1000)}k`;
+}
+
+function getModelRoles(provider: Provider, model: string): ModelRole[] {
+  return (Object.keys(DEFAULT_MODELS) as ModelRole[]).filter(
+    (role) => getDefaultModel(provider, role) === model
+  );
+}
+
+export function getModelInfo(
+  provider: Provider,
+  model: string,
+  config: Config
+): ModelInfo | undefined {
+  const capabilities = getModelCapabilities(model);
+  if (!capabilities) {
+    return undefined;
+  }
+  const known = PROVIDER_MODELS[getRegistryProvider(provider)]?.find(
+    (entry) => entry.model === model
+  );
+  return {
+    provider,
+    model,
+    ...capabilities,
+    webSearch: known?.webSearch ?? false,
+    pricing: getModelPricing(provider, model, config),
+    defaultFor: getModelRoles(provider, model),
+  };
+}
+
+/**
+ * All registered models, one entry per provider and model. The specialised APIZH providers are
+ * listed under `apizh`.
+ */
+export function listModels(config: Config): ModelInfo[] {
+  const builtinModels = (Object.keys(PROVIDER_MODELS) as RegistryProvider[]).flatMap((provider) =>
+    PROVIDER_MODELS[provider].flatMap((entry) => getModelInfo(provider, entry.model, config) ?? [])
+  );
+  // Models declared by custom providers are listed when their model family is known
+  const customModels = getCustomProviders().flatMap((definition) =>
+    (definition.models ?? []).flatMap(
+      (model) => getModelInfo(definition.name as Provider, model, config) ?? []
+    )
+  );
+  return [...builtinModels, ...customModels];
+}
+
+/**
+ * Models to suggest for a provider, its default model first. Also accepts the provider class
+ * names used in error messages, such as `OpenAI` or `GoogleVertexAI`.
+ */
+export function getModelSuggestions(providerName: string): string[] {
+  const name = providerName.toLowerCase();
+  const provider = (name.startsWith('google') ? 'gemini' : name) as Provider;
+  const entries = PROVIDER_MODELS[getRegistryProvider(provider)];
+  if (!entries) {
+    return getCustomProvider(provider)?.models ?? [];
+  }
+  const defaultModel = getDefaultModel(provider);
+  const models = entries.map((entry) => entry.model).filter((model) => model !== defaultModel);
+  return defaultModel ? [defaultModel, ...models] : models;
+}
+
+/**
+ * Warnings for options the model cannot honour: a prompt larger than its context window or a
+ * reasoning effort it ignores. Unknown models are not checked.
+ */
+export function checkModelCapabilities(
+  provider: Provider,
+  model: string,
+  options: { tokenCount?: number; reasoningEffort?: ReasoningEffort }
+): string[] {
+  const capabilities = getModelCapabilities(model);
+  if (!capabilities) {
+    return [];
+  }
+
+  const warnings: string[] = [];
+  if (options.tokenCount && options.tokenCount > capabilities.contextWindow) {
+    warnings.push(
+      `The prompt (${options.tokenCount.toLocaleString()} tokens) exceeds the ${capabilities.contextWindow.toLocaleString()} token context window of ${provider}/${model}. ` +
+        'Reduce the context or choose a model with a larger context window (see `vibe-tools models`).'
+    );
+  }
+  if (options.reasoningEffort && !capabilities.reasoningEffort) {
+    warnings.push(`${provider}/${model} does not support --reasoning-effort, it will be ignored.`);
+  }
+  return warnings;
+}
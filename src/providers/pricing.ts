@@ -0,0 +1,90 @@
+import type { Config, ModelPricing, Provider } from '../types';
+
+/**
+ * List prices in USD per million tokens. Models are matched by the longest prefix of the model
+ * name (without any `provider/` namespace), so dated snapshots such as
+ * `claude-sonnet-4-20250514` use the price of `claude-sonnet-4`.
+ *
+ * Prices change regularly; override or extend them with `pricing` in vibe-tools.config.json.
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  // OpenAI
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  o1: { input: 15, output: 60 },
+  o3: { input: 2, output: 8 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  // Anthropic
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  // Google
+  'gemini-2.5-pro': {
+    input: 1.25,
+    output: 10,
+    longContextThreshold: 200_000,
+    longContextInput: 2.5,
+    longContextOutput: 15,
+  },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  // Perplexity
+  sonar: { input: 1, output: 1 },
+  'sonar-pro': { input: 3, output: 15 },
+  'sonar-reasoning': { input: 1, output: 5 },
+  'sonar-reasoning-pro': { input: 2, output: 8 },
+  'sonar-deep-research': { input: 2, output: 8 },
+  // xAI
+  'grok-3': { input: 3, output: 15 },
+  'grok-3-mini': { input: 0.3, output: 0.5 },
+  'grok-4': { input: 3, output: 15 },
+};
+
+// Providers that run models locally and never incur API costs
+const FREE_PROVIDERS: Provider[] = ['ollama'];
+
+const FREE_PRICING: ModelPricing = { input: 0, output: 0 };
+
+export function getModelPricing(
+  provider: Provider,
+  model: string,
+  config: Config
+): ModelPricing | undefined {
+  if (FREE_PROVIDERS.includes(provider)) {
+    return FREE_PRICING;
+  }
+
+  const pricing = { ...MODEL_PRICING, ...config.pricing };
+  // Config entries may use the full namespaced name, e.g. "openrouter/custom-model"
+  if (pricing[model]) {
+    return pricing[model];
+  }
+
+  const modelName = (model.includes('/') ? model.slice(model.lastIndexOf('/') + 1) : model)
+    .toLowerCase()
+    .replace(/:.*$/, '');
+  const match = Object.keys(pricing)
+    .filter((key) => modelName.startsWith(key.toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? pricing[match] : undefined;
+}
+
+export function calculateCost(
+  pricing: ModelPricing,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  const longContext =
+    pricing.longContextThreshold !== undefined && promptTokens > pricing.longContextThreshold;
+  const inputPrice = longContext ? (pricing.longContextInput ?? pricing.input) : pricing.input;
+  const outputPrice = longContext ? (pricing.longContextOutput ?? pricing.output) : pricing.output;
+  return (promptTokens * inputPrice + completionTokens * outputPrice) / 1_000_000;
+}
@@ -0,0 +1,379 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { RateLimitSettings } from '../types';
+import { loadConfig } from '../config';
+import type { BaseModelProvider, ModelOptions } from './base';
+
+const DEFAULT_MAX_CONCURRENT = 4;
+const WINDOW_MS = 60_000;
+// Cooldown after a 429 that did not say how long to wait
+const DEFAULT_RATE_LIMIT_COOLDOWN_MS = 5_000;
+// Upper bound for server-requested delays, protects against bogus reset timestamps
+const MAX_RETRY_AFTER_MS = 5 * 60_000;
+const CHARS_PER_TOKEN = 4;
+
+type HeaderSource = Headers | Record<string, string | null | undefined>;
+
+interface WindowEntry {
+  time: number;
+  tokens: number;
+}
+
+interface ProviderState {
+  active: number;
+  queue: Array<{ tokens: number; start: (entry: WindowEntry) => void }>;
+  window: WindowEntry[]; // Calls started during the last minute
+  blockedUntil: number; // Set from rate limit responses, no call starts before this time
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+const states = new Map<string, ProviderState>();
+
+// Provider of the scheduled call currently running, so retries deep inside a provider can report
+// rate limit responses to the shared state without knowing which provider they belong to
+const currentProvider = new AsyncLocalStorage<string>();
+
+function getState(provider: string): ProviderState {
+  let state = states.get(provider);
+  if (!state) {
+    state = { active: 0, queue: [], window: [], blockedUntil: 0 };
+    states.set(provider, state);
+  }
+  return state;
+}
+
+function getRateLimitSettings(provider: string): RateLimitSettings {
+  const settings = loadConfig().rateLimits?.[provider];
+  return { maxConcurrent: DEFAULT_MAX_CONCURRENT, ...settings };
+}
+
+/**
+ * Milliseconds until a call with `tokens` may start, 0 if it may start now or Infinity when it has
+ * to wait for a running call to finish.
+ */
+function getWaitTime(
+  state: ProviderState,
+  tokens: number,
+  settings: RateLimitSettings,
+  now: number
+): number {
+  state.window = state.window.filter((entry) => entry.time > now - WINDOW_MS);
+
+  let wait = Math.max(0, state.blockedUntil - now);
+
+  const { requestsPerMinute, tokensPerMinute } = settings;
+  if (requestsPerMinute && state.window.length >= requestsPerMinute) {
+    const oldest = state.window[state.window.length - requestsPerMinute];
+    wait = Math.max(wait, oldest.time + WINDOW_MS - now);
+  }
+  if (tokensPerMinute) {
+    // Drop the oldest calls until the new one fits, a call larger than the budget runs alone
+    let used = state.window.reduce((sum, entry) => sum + entry.tokens, 0);
+    for (const entry of state.window) {
+      if (used + tokens <= tokensPerMinute) {
+        break;
+      }
+      used -= entry.tokens;
+      wait = Math.max(wait, entry.time + WINDOW_MS - now);
+    }
+  }
+
+  if (wait > 0) {
+    return wait;
+  }
+  return state.active >= Math.max(1, settings.maxConcurrent ?? DEFAULT_MAX_CONCURRENT)
+    ? Infinity
+    : 0;
+}
+
+// Starts queued calls in order for as long as the limits allow
+function pump(provider: string): void {
+  const state = getState(provider);
+  const settings = getRateLimitSettings(provider);
+
+  while (state.queue.length > 0) {
+    const now = Date.now();
+    const wait = getWaitTime(state, state.queue[0].tokens, settings, now);
+    if (wait === 0) {
+      const next = state.queue.shift()!;
+      const entry = { time: now, tokens: next.tokens };
+      state.active++;
+      state.window.push(entry);
+      next.start(entry);
+      continue;
+    }
+    if (wait !== Infinity && !state.timer) {
+      state.timer = setTimeout(() => {
+        state.timer = undefined;
+        pump(provider);
+      }, wait);
+    }
+    return;
+  }
+}
+
+// A cancelled call leaves the queue without taking a slot
+function acquire(provider: string, tokens: number, signal?: AbortSignal): Promise<WindowEntry> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const state = getState(provider);
+    const queued = {
+      tokens,
+      start: (entry: WindowEntry) => {
+        signal?.removeEventListener('abort', cancel);
+        resolve(entry);
+      },
+    };
+    const cancel = () => {
+      state.queue = state.queue.filter((item) => item !== queued);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+    state.queue.push(queued);
+    pump(provider);
+  });
+}
+
+function release(provider: string): void {
+  getState(provider).active--;
+  pump(provider);
+}
+
+function getHeader(headers: HeaderSource, name: string): string | undefined {
+  if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+    return headers.get(name) ?? undefined;
+  }
+  const record = headers as Record<string, string | null | undefined>;
+  const key = Object.keys(record).find((key) => key.toLowerCase() === name);
+  return key ? (record[key] ?? undefined) : undefined;
+}
+
+function getHeaderNames(headers: HeaderSource): string[] {
+  if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+    const names: string[] = [];
+    headers.forEach((_value, name) => names.push(name));
+    return names;
+  }
+  return Object.keys(headers).map((key) => key.toLowerCase());
+}
+
+/**
+ * Parses the reset values used by the different providers into milliseconds from now: seconds
+ * (`20`), durations (`1m30s`, `250ms`), epoch timestamps and HTTP or ISO dates.
+ */
+function parseResetValue(value: string, now: number): number | undefined {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const number = Number(trimmed);
+    if (number > 1e12) return number - now; // Epoch milliseconds
+    if (number > 1e9) return number * 1000 - now; // Epoch seconds
+    return number * 1000;
+  }
+
+  const duration = trimmed.match(/^(?:(\d+)h)?(?:(\d+)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+)ms)?$/);
+  if (duration && trimmed !== '') {
+    const [, hours = '0', minutes = '0', seconds = '0', milliseconds = '0'] = duration;
+    return (
+      Number(hours) * 3_600_000 +
+      Number(minutes) * 60_000 +
+      Number(seconds) * 1000 +
+      Number(milliseconds)
+    );
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : date - now;
+}
+
+/**
+ * How long the server asked us to wait, from `Retry-After`/`retry-after-ms` or, when a rate limit
+ * is exhausted, from the matching `*ratelimit*-reset*` header (`x-ratelimit-remaining-tokens: 0`
+ * with `x-ratelimit-reset-tokens`, `anthropic-ratelimit-requests-remaining: 0` with
+ * `anthropic-ratelimit-requests-reset`, ...).
+ */
+export function getRetryAfterMs(headers: HeaderSource | undefined): number | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  const now = Date.now();
+
+  const retryAfterMs = getHeader(headers, 'retry-after-ms');
+  if (retryAfterMs && !Number.isNaN(Number(retryAfterMs))) {
+    return Math.min(Number(retryAfterMs), MAX_RETRY_AFTER_MS);
+  }
+  const retryAfter = getHeader(headers, 'retry-after');
+  if (retryAfter) {
+    const delay = parseResetValue(retryAfter, now);
+    if (delay !== undefined) {
+      return Math.min(Math.max(0, delay), MAX_RETRY_AFTER_MS);
+    }
+  }
+
+  let delay: number | undefined;
+  for (const name of getHeaderNames(headers)) {
+    if (!name.includes('ratelimit') || !name.includes('remaining')) {
+      continue;
+    }
+    if (parseFloat(getHeader(headers, name) ?? '') !== 0) {
+      continue;
+    }
+    const reset = getHeader(headers, name.replace('remaining', 'reset'));
+    const resetDelay = reset ? parseResetValue(reset, now) : undefined;
+    if (resetDelay !== undefined) {
+      delay = Math.max(delay ?? 0, resetDelay);
+    }
+  }
+  return delay === undefined ? undefined : Math.min(Math.max(0, delay), MAX_RETRY_AFTER_MS);
+}
+
+function blockProvider(provider: string, delay: number): void {
+  const state = getState(provider);
+  const until = Date.now() + delay;
+  if (until > state.blockedUntil) {
+    state.blockedUntil = until;
+    if (state.timer) {
+      clearTimeout(state.timer);
+      state.timer = undefined;
+    }
+    pump(provider);
+  }
+}
+
+function isRateLimitError(error: any): boolean {
+  if (error?.status === 429) {
+    return true;
+  }
+  const message = error instanceof Error ? error.message.toLowerCase() : '';
+  return message.includes('429') || message.includes('rate limit');
+}
+
+/**
+ * Records rate limit response headers for the provider of the current scheduled call, so queued
+ * calls wait instead of running into the same limit. Used by providers that call fetch directly.
+ */
+export function observeRateLimitHeaders(headers: HeaderSource | undefined): void {
+  const provider = currentProvider.getStore();
+  const delay = getRetryAfterMs(headers);
+  if (provider && delay) {
+    blockProvider(provider, delay);
+  }
+}
+
+/**
+ * Reports a failed call. Returns how long to wait before retrying it: the delay requested by the
+ * server through the error's headers or the remaining time the provider is blocked for, 0 when the
+ * provider is not rate limited.
+ */
+export function reportRateLimitError(error: unknown): number {
+  const provider = currentProvider.getStore();
+  const headerDelay = getRetryAfterMs((error as { headers?: HeaderSource })?.headers);
+  if (!provider) {
+    return headerDelay ?? 0;
+  }
+
+  const state = getState(provider);
+  if (headerDelay) {
+    blockProvider(provider, headerDelay);
+  } else if (isRateLimitError(error) && state.blockedUntil <= Date.now()) {
+    blockProvider(provider, DEFAULT_RATE_LIMIT_COOLDOWN_MS);
+  }
+  return Math.max(0, state.blockedUntil - Date.now());
+}
+
+async function runScheduled<T>(
+  provider: string,
+  tokens: number,
+  operation: () => Promise<T>,
+  getActualTokens?: () => number | undefined,
+  signal?: AbortSignal
+): Promise<T> {
+  const entry = await acquire(provider, tokens, signal);
+  try {
+    return await currentProvider.run(provider, operation);
+  } catch (error) {
+    currentProvider.run(provider, () => reportRateLimitError(error));
+    // Report the cancellation itself rather than the provider's wrapped abort error
+    signal?.throwIfAborted();
+    throw error;
+  } finally {
+    entry.tokens = getActualTokens?.() || entry.tokens;
+    release(provider);
+  }
+}
+
+/**
+ * Runs a provider call once the provider's concurrency, requests-per-minute and tokens-per-minute
+ * limits allow it and no rate limit response asked us to back off. Calls for the same provider are
+ * started in the order they were scheduled.
+ */
+export function scheduleProviderCall<T>(
+  provider: string,
+  estimatedTokens: number,
+  operation: () => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  return runScheduled(provider, estimatedTokens, operation, undefined, signal);
+}
+
+export function estimatePromptTokens(...texts: string[]): number {
+  return Math.ceil(texts.reduce((sum, text) => sum + text.length, 0) / CHARS_PER_TOKEN);
+}
+
+/**
+ * Wraps a provider instance so its prompts go through the shared rate limit scheduler. Streams hold
+ * their slot until the last chunk has been received.
+ */
+export function withRateLimitScheduling<T extends BaseModelProvider>(
+  provider: string,
+  instance: T
+): T {
+  const executePrompt = instance.executePrompt.bind(instance);
+  const streamPrompt = instance.streamPrompt?.bind(instance);
+
+  const estimate = (prompt: string, options: ModelOptions | undefined) =>
+    Math.max(estimatePromptTokens(prompt, options?.systemPrompt ?? ''), options?.tokenCount ?? 0) +
+    (options?.maxTokens ?? 0);
+
+  instance.executePrompt = (prompt: string, options?: ModelOptions) =>
+    runScheduled(
+      provider,
+      estimate(prompt, options),
+      () => executePrompt(prompt, options),
+      () => instance.tokenUsage?.totalTokens,
+      options?.signal
+    );
+
+  if (streamPrompt) {
+    instance.streamPrompt = async function* (prompt: string, options: ModelOptions) {
+      const entry = await acquire(provider, estimate(prompt, options), options?.signal);
+      try {
+        const iterator = currentProvider.run(provider, () =>
+          streamPrompt(prompt, options)[Symbol.asyncIterator]()
+        );
+        try {
+          while (true) {
+            const result = await currentProvider.run(provider, () => iterator.next());
+            if (result.done) {
+              return;
+            }
+            yield result.value;
+          }
+        } finally {
+          // Close the provider stream when the consumer stops early (break, abort or budget error)
+          await currentProvider.run(provider, () => iterator.return?.());
+        }
+      } catch (error) {
+        currentProvider.run(provider, () => reportRateLimitError(error));
+        options?.signal?.throwIfAborted();
+        throw error;
+      } finally {
+        entry.tokens = instance.tokenUsage?.totalTokens || entry.tokens;
+        release(provider);
+      }
+    };
+  }
+
+  return instance;
+}
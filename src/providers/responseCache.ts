@@ -0,0 +1,277 @@
+import { createHash } from 'node:crypto';
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  utimesSync,
+} from 'node:fs';
+import { writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type { Provider } from '../types';
+import { loadConfig } from '../config';
+import type { BaseModelProvider, ModelOptions } from './base';
+
+export const RESPONSE_CACHE_DIR = join(homedir(), '.vibe-tools', 'cache', 'responses');
+
+const DEFAULT_TTL_HOURS = 24;
+const DEFAULT_MAX_SIZE_MB = 100;
+
+interface CachedResponse {
+  key: string;
+  provider: Provider;
+  model: string;
+  createdAt: number;
+  response: string;
+}
+
+export interface ResponseCacheStats {
+  directory: string;
+  entries: number;
+  expiredEntries: number;
+  sizeBytes: number;
+  maxSizeBytes: number;
+  ttlHours: number;
+  enabled: boolean;
+  oldestEntry?: Date;
+  newestEntry?: Date;
+}
+
+// Set from the CLI when --no-cache is passed so every provider created afterwards bypasses the cache
+let cacheDisabledForRun = false;
+
+export function disableResponseCache(): void {
+  cacheDisabledForRun = true;
+}
+
+function getCacheSettings() {
+  const cacheConfig = loadConfig().cache;
+  return {
+    enabled: !cacheDisabledForRun && cacheConfig?.enabled !== false,
+    ttlMs: (cacheConfig?.ttlHours ?? DEFAULT_TTL_HOURS) * 60 * 60 * 1000,
+    maxSizeBytes: (cacheConfig?.maxSizeMB ?? DEFAULT_MAX_SIZE_MB) * 1024 * 1024,
+  };
+}
+
+/**
+ * Builds the content-addressed key for a prompt. Only options that change what the model is
+ * asked to produce are part of the key; debug flags and timeouts are not. Also used to match
+ * recorded cassette interactions.
+ */
+export function getPromptFingerprint(
+  provider: Provider,
+  prompt: string,
+  options: ModelOptions
+): string {
+  const promptHash = createHash('sha256').update(prompt).digest('hex');
+  return createHash('sha256')
+    .update(
+      JSON.stringify({
+        provider,
+        model: options.model,
+        systemPrompt: options.systemPrompt ?? '',
+        promptHash,
+        maxTokens: options.maxTokens,
+        reasoningEffort: options.reasoningEffort,
+        webSearch: options.webSearch ?? false,
+        // Undefined without images, so existing fingerprints stay the same
+        imageHashes: options.images?.map((image) =>
+          createHash('sha256').update(image.data).digest('hex')
+        ),
+      })
+    )
+    .digest('hex');
+}
+
+function getEntryPath(key: string): string {
+  return join(RESPONSE_CACHE_DIR, `${key}.json`);
+}
+
+function listEntryFiles(): { path: string; size: number; mtimeMs: number }[] {
+  if (!existsSync(RESPONSE_CACHE_DIR)) {
+    return [];
+  }
+  return readdirSync(RESPONSE_CACHE_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => {
+      const path = join(RESPONSE_CACHE_DIR, file);
+      const { size, mtimeMs } = statSync(path);
+      return { path, size, mtimeMs };
+    });
+}
+
+function readEntry(key: string, ttlMs: number): CachedResponse | undefined {
+  const path = getEntryPath(key);
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  try {
+    const entry = JSON.parse(readFileSync(path, 'utf-8')) as CachedResponse;
+    if (Date.now() - entry.createdAt > ttlMs) {
+      rmSync(path, { force: true });
+      return undefined;
+    }
+    // Touch the entry so size-based eviction drops the least recently used responses first
+    const now = new Date();
+    utimesSync(path, now, now);
+    return entry;
+  } catch {
+    // A corrupt entry is treated as a miss and overwritten by the next response
+    return undefined;
+  }
+}
+
+async function writeEntry(entry: CachedResponse, maxSizeBytes: number): Promise<void> {
+  try {
+    mkdirSync(RESPONSE_CACHE_DIR, { recursive: true });
+    await writeFile(getEntryPath(entry.key), JSON.stringify(entry), 'utf-8');
+    evictToSize(maxSizeBytes);
+  } catch (error) {
+    // Caching is best effort, a failed write must never fail the command
+    console.error('Failed to write response cache entry:', error);
+  }
+}
+
+function evictToSize(maxSizeBytes: number): void {
+  const files = listEntryFiles().sort((a, b) => a.mtimeMs - b.mtimeMs);
+  let totalSize = files.reduce((sum, file) => sum + file.size, 0);
+  for (const file of files) {
+    if (totalSize <= maxSizeBytes) {
+      break;
+    }
+    rmSync(file.path, { force: true });
+    totalSize -= file.size;
+  }
+}
+
+export function getResponseCacheStats(): ResponseCacheStats {
+  const { enabled, ttlMs, maxSizeBytes } = getCacheSettings();
+  const files = listEntryFiles();
+  const stats: ResponseCacheStats = {
+    directory: RESPONSE_CACHE_DIR,
+    entries: files.length,
+    expiredEntries: 0,
+    sizeBytes: 0,
+    maxSizeBytes,
+    ttlHours: ttlMs / (60 * 60 * 1000),
+    enabled,
+  };
+
+  for (const file of files) {
+    stats.sizeBytes += file.size;
+    try {
+      const { createdAt } = JSON.parse(readFileSync(file.path, 'utf-8')) as CachedResponse;
+      if (Date.now() - createdAt > ttlMs) {
+        stats.expiredEntries++;
+      }
+      if (!stats.oldestEntry || createdAt < stats.oldestEntry.getTime()) {
+        stats.oldestEntry = new Date(createdAt);
+      }
+      if (!stats.newestEntry || createdAt > stats.newestEntry.getTime()) {
+        stats.newestEntry = new Date(createdAt);
+      }
+    } catch {
+      stats.expiredEntries++;
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Removes cached responses. With `expiredOnly` only entries past their TTL (or unreadable) are
+ * removed. Returns the number of entries deleted.
+ */
+export function clearResponseCache(expiredOnly = false): number {
+  const { ttlMs } = getCacheSettings();
+  let removed = 0;
+  for (const file of listEntryFiles()) {
+    if (expiredOnly) {
+      try {
+        const { createdAt } = JSON.parse(readFileSync(file.path, 'utf-8')) as CachedResponse;
+        if (Date.now() - createdAt <= ttlMs) {
+          continue;
+        }
+      } catch {
+        // Unreadable entries are always removed
+      }
+    }
+    rmSync(file.path, { force: true });
+    removed++;
+  }
+  return removed;
+}
+
+/**
+ * Wraps a provider instance so identical prompts are answered from the on-disk cache.
+ *
+ * The instance itself is patched rather than wrapped in a new object so that provider specific
+ * members (token usage, model resolution helpers) keep working for callers. Web search requests
+ * are never cached because their answers depend on the current state of the web.
+ */
+export function withResponseCache<T extends BaseModelProvider>(provider: Provider, instance: T): T {
+  const settings = getCacheSettings();
+  if (!settings.enabled) {
+    return instance;
+  }
+
+  const executePrompt = instance.executePrompt.bind(instance);
+  const streamPrompt = instance.streamPrompt?.bind(instance);
+
+  const lookup = (prompt: string, options?: ModelOptions) => {
+    if (!options || options.webSearch) {
+      return {};
+    }
+    const key = getPromptFingerprint(provider, prompt, options);
+    const entry = readEntry(key, settings.ttlMs);
+    if (entry) {
+      if (options.debug) {
+        console.log(`[response-cache] Cache hit for ${provider}/${options.model} (${key})`);
+      }
+      // Cached answers cost nothing, so report zero usage instead of the previous call's numbers
+      instance.tokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    }
+    return { key, entry };
+  };
+
+  const store = (key: string | undefined, options: ModelOptions | undefined, response: string) => {
+    if (!key || !options || !response) {
+      return Promise.resolve();
+    }
+    return writeEntry(
+      { key, provider, model: options.model, createdAt: Date.now(), response },
+      settings.maxSizeBytes
+    );
+  };
+
+  instance.executePrompt = async (prompt: string, options?: ModelOptions) => {
+    const { key, entry } = lookup(prompt, options);
+    if (entry) {
+      return entry.response;
+    }
+    const response = await executePrompt(prompt, options);
+    await store(key, options, response);
+    return response;
+  };
+
+  if (streamPrompt) {
+    instance.streamPrompt = async function* (prompt: string, options: ModelOptions) {
+      const { key, entry } = lookup(prompt, options);
+      if (entry) {
+        yield entry.response;
+        return;
+      }
+      let response = '';
+      for await (const chunk of streamPrompt(prompt, options)) {
+        response += chunk;
+        yield chunk;
+      }
+      await store(key, options, response);
+    };
+  }
+
+  return instance;
+}
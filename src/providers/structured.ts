@@ -0,0 +1,109 @@
+import type { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ProviderError } from '../errors';
+import type { BaseModelProvider, ModelOptions } from './base';
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+export interface StructuredOptions extends ModelOptions {
+  maxRepairAttempts?: number; // Re-prompts allowed when the response fails validation (default: 2)
+}
+
+export class StructuredOutputError extends ProviderError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+// Pulls the JSON value out of a response, tolerating markdown fences and surrounding prose
+function extractJson(response: string): string {
+  const fenced = response.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const text = (fenced ? fenced[1] : response).trim();
+  if (text.startsWith('{') || text.startsWith('[')) {
+    return text;
+  }
+
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  return start !== -1 && end > start ? text.slice(start, end + 1) : text;
+}
+
+function validateResponse<T>(
+  response: string,
+  schema: z.ZodType<T>
+): { success: true; data: T } | { success: false; error: string } {
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJson(response));
+  } catch (error) {
+    return {
+      success: false,
+      error: `The response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    error: result.error.issues
+      .map(
+        (issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`
+      )
+      .join('\n'),
+  };
+}
+
+/**
+ * Executes a prompt whose answer must be JSON matching `schema`.
+ *
+ * The JSON schema is sent to the model as part of the prompt and through `options.jsonSchema`, so
+ * providers with a native JSON mode can enforce it. Responses are validated with zod and invalid
+ * ones are sent back for repair a bounded number of times. Repair prompts only contain the schema,
+ * the invalid response and the validation errors, not the original context.
+ */
+export async function executeStructuredPrompt<T>(
+  provider: BaseModelProvider,
+  prompt: string,
+  schema: z.ZodType<T>,
+  options: StructuredOptions
+): Promise<T> {
+  const { maxRepairAttempts = DEFAULT_MAX_REPAIR_ATTEMPTS, ...modelOptions } = options;
+  const jsonSchema =
+    modelOptions.jsonSchema ??
+    (zodToJsonSchema(schema, { $refStrategy: 'none' }) as Record<string, unknown>);
+  const schemaText = JSON.stringify(jsonSchema, null, 2);
+  const requestOptions: ModelOptions = { ...modelOptions, jsonSchema };
+
+  let response = await provider.executePrompt(
+    `${prompt}\n\nRespond only with a single JSON value that matches this JSON schema, without any explanation or markdown formatting:\n${schemaText}`,
+    requestOptions
+  );
+
+  for (let attempt = 0; ; attempt++) {
+    const result = validateResponse(response, schema);
+    if (result.success) {
+      return result.data;
+    }
+
+    if (attempt >= maxRepairAttempts) {
+      throw new StructuredOutputError(
+        `The model did not return a response matching the schema after ${maxRepairAttempts} repair attempt${maxRepairAttempts === 1 ? '' : 's'}:\n${result.error}`
+      );
+    }
+
+    if (modelOptions.debug) {
+      console.log(
+        `[structured] Response failed validation (attempt ${attempt + 1}), requesting repair:\n${result.error}`
+      );
+    }
+
+    response = await provider.executePrompt(
+      `The following response was supposed to be a JSON value matching this JSON schema:\n${schemaText}\n\nResponse:\n${response}\n\nIt failed validation with these errors:\n${result.error}\n\nRespond only with the corrected JSON value, without any explanation or markdown formatting.`,
+      requestOptions
+    );
+  }
+}
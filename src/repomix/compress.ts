@@ -0,0 +1,91 @@
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { mergeConfigs, parseFile } from 'repomix';
+import { getPackCacheDir, writeAtomically } from './packCache';
+import { mapPackedFileLines, parsePackedFiles } from './packChunks';
+
+// Bumped when the layout of the index changes or Repomix extracts signatures differently
+const INDEX_VERSION = 1;
+
+// Repomix's default config with compression enabled, as its own packer passes to parseFile
+const PARSE_CONFIG = mergeConfigs(process.cwd(), {}, { output: { compress: true } });
+
+interface CompressedFile {
+  hash: string; // Of the file element in the pack
+  content?: string; // Undefined when Repomix can't parse the file's language, it is kept in full
+}
+
+interface CompressionIndex {
+  version: number;
+  files: Record<string, CompressedFile>;
+}
+
+function readIndex(path: string): CompressionIndex {
+  try {
+    const index = JSON.parse(readFileSync(path, 'utf-8')) as CompressionIndex;
+    if (index.version === INDEX_VERSION) {
+      return index;
+    }
+  } catch {
+    // A missing or corrupt index means every file is parsed again
+  }
+  return { version: INDEX_VERSION, files: {} };
+}
+
+// The content of a file element, without the element and the newlines around the content
+function getContent(element: string): string {
+  const open = element.slice(0, element.indexOf('">') + 2);
+  return element.slice(open.length, -'</file>'.length).replace(/^\n|\n$/g, '');
+}
+
+/**
+ * Reduces the files of a Repomix XML pack that are not in `keep` to their signatures, type
+ * declarations and doc comments, using Repomix's Tree-sitter compression. Files in languages
+ * Repomix can't parse are kept in full. The signatures are cached next to the pack cache of
+ * `source` and only files whose content changed are parsed again.
+ */
+export async function compressPackedFiles(
+  packOutput: string,
+  source: string,
+  keep: Set<string>,
+  signal?: AbortSignal
+): Promise<string> {
+  const cacheDir = getPackCacheDir(source);
+  const indexPath = join(cacheDir, 'signatures.json');
+  const previous = readIndex(indexPath);
+  const index: CompressionIndex = { version: INDEX_VERSION, files: {} };
+
+  // Signatures of kept files stay cached for the runs that compress them
+  const cachedFiles: CompressionIndex['files'] = {};
+  for (const file of parsePackedFiles(packOutput)) {
+    if (keep.has(file.path)) {
+      if (previous.files[file.path]) {
+        cachedFiles[file.path] = previous.files[file.path];
+      }
+      continue;
+    }
+    signal?.throwIfAborted();
+    const hash = createHash('sha256').update(file.text).digest('hex');
+    const cached = previous.files[file.path];
+    index.files[file.path] =
+      cached?.hash === hash
+        ? cached
+        : { hash, content: await parseFile(getContent(file.text), file.path, PARSE_CONFIG) };
+  }
+
+  try {
+    await mkdir(cacheDir, { recursive: true });
+    const files = { ...cachedFiles, ...index.files };
+    await writeAtomically(indexPath, JSON.stringify({ ...index, files }));
+  } catch (error) {
+    // Caching is best effort like the pack cache, the compressed pack is still valid
+    console.error('Failed to write signature cache:', error);
+  }
+
+  return mapPackedFileLines(packOutput, (path, lines) => {
+    const content = index.files[path]?.content;
+    return content === undefined ? lines : content.split('\n');
+  });
+}
@@ -0,0 +1,235 @@
+import { existsSync, statSync } from 'node:fs';
+import { basename, join, resolve } from 'node:path';
+import type { RepomixConfig } from 'repomix';
+import { FileError, ProviderError } from '../errors';
+import type { CommandOptions } from '../types';
+import { abortable } from '../utils/abort';
+import { countTokens } from '../utils/contextBudget';
+import {
+  cloneRepository,
+  formatGitSource,
+  parseGitSource,
+  parseGithubSource,
+  type GitSource,
+} from '../utils/gitClone';
+import { looksLikeGithubRepo } from '../utils/githubRepo';
+import { packRepository, type PackedRepository } from './packCache';
+import { filterPackedFiles, renamePackedFiles } from './packChunks';
+import { rankFiles } from './retrieval';
+
+export interface RepositorySource {
+  name: string; // Label of the repository in the prompt and first segment of its files' paths
+  spec: string; // The --repo-path value
+  directory?: string; // Set for local directories
+  remote?: GitSource; // Set for repositories that are cloned first
+}
+
+export interface PackedRepositorySource {
+  name: string;
+  directory: string;
+  text: string; // Repomix output, the paths of its files start with the repository's name
+  tokens: number;
+  totalFiles: number;
+  droppedFiles: number; // Files left out to stay within --max-repo-tokens
+}
+
+function getRepositoryName(source: Omit<RepositorySource, 'name'>): string {
+  const path = source.directory ?? source.remote?.url.replace(/\.git\/?$/, '') ?? source.spec;
+  // The last segment of a path, a URL or an ssh address (git@host:team/service.git)
+  const name = basename(path.replace(/:/g, '/')).replace(/[^\w.-]/g, '-');
+  return name || 'repository';
+}
+
+/**
+ * Resolves the values of --repo-path: local directories, GitHub repositories (owner/repo[@ref]
+ * or URLs) and other git URLs with an optional @ref. Each repository is named after its directory
+ * or repository name, repositories with the same name are numbered.
+ */
+export function parseRepoPaths(values: string[]): RepositorySource[] {
+  const names = new Set<string>();
+  // A remote repository has a single clone, so it can only be checked out at one ref at a time
+  const refs = new Map<string, string | undefined>();
+  return values.map((spec) => {
+    let source: Omit<RepositorySource, 'name'>;
+    const directory = resolve(spec);
+    if (existsSync(directory) && statSync(directory).isDirectory()) {
+      source = { spec, directory };
+    } else if (spec.startsWith('https://github.com/') || looksLikeGithubRepo(spec)) {
+      source = { spec, remote: parseGithubSource(spec) };
+    } else if (/^[\w+.-]+:\/\/|^[\w.-]+@[\w.-]+:/.test(spec)) {
+      source = { spec, remote: parseGitSource(spec) };
+    } else {
+      throw new FileError(`--repo-path ${spec} is neither a directory nor a git repository`);
+    }
+    if (source.remote) {
+      const { url, ref } = source.remote;
+      if (refs.has(url) && refs.get(url) !== ref) {
+        throw new ProviderError(`--repo-path can only use one ref of ${url}`);
+      }
+      refs.set(url, ref);
+    }
+
+    const base = getRepositoryName(source);
+    let name = base;
+    for (let index = 2; names.has(name); index++) {
+      name = `${base}-${index}`;
+    }
+    names.add(name);
+    return { ...source, name };
+  });
+}
+
+/**
+ * Fails when --repo-path is combined with options that choose a single repository.
+ */
+export function checkRepoPathOptions(options?: CommandOptions): void {
+  if (options?.repoPath?.length && (options.fromGithub || options.fromGit || options.subdir)) {
+    throw new ProviderError(
+      '--repo-path cannot be combined with --from-github, --from-git or --subdir, pass every repository with --repo-path instead'
+    );
+  }
+}
+
+/**
+ * Keeps the files most relevant to the query that fit in `budget` tokens, together with the
+ * summary and directory structure of the pack. Files that don't match the query come last.
+ */
+async function selectFilesWithinBudget(
+  query: string,
+  packed: PackedRepository,
+  directory: string,
+  budget: number,
+  signal?: AbortSignal
+): Promise<Set<string>> {
+  const fileTokens = packed.result.fileTokenCounts;
+  let used =
+    packed.result.totalTokens - Object.values(fileTokens).reduce((sum, tokens) => sum + tokens, 0);
+  const ranked = (await rankFiles(query, packed.text, directory, Infinity, signal)).map(
+    (file) => file.path
+  );
+  const rankedPaths = new Set(ranked);
+  const unranked = Object.keys(fileTokens).filter((path) => !rankedPaths.has(path));
+
+  const kept = new Set<string>();
+  for (const path of [...ranked, ...unranked]) {
+    const tokens = fileTokens[path] ?? 0;
+    if (used + tokens <= budget) {
+      kept.add(path);
+      used += tokens;
+    }
+  }
+  return kept;
+}
+
+/**
+ * Packs every repository of --repo-path on its own, cloning remote ones first, and prefixes the
+ * paths of their files with the repository's name. With --max-repo-tokens, a repository that
+ * doesn't fit keeps only the files most relevant to the query, so one large repository can't
+ * crowd out the others.
+ */
+export async function* packRepositories(
+  sources: RepositorySource[],
+  query: string,
+  options: CommandOptions,
+  maxRepoSizeMB: number
+): AsyncGenerator<string, PackedRepositorySource[], unknown> {
+  const packs: PackedRepositorySource[] = [];
+  for (const source of sources) {
+    let directory = source.directory;
+    if (source.remote) {
+      yield `Fetching ${formatGitSource(source.remote)}...\n`;
+      const cloned = await cloneRepository(source.remote, maxRepoSizeMB, options.signal);
+      directory = cloned.directory;
+    }
+    if (!directory) {
+      throw new FileError(`No directory to pack for --repo-path ${source.spec}`);
+    }
+
+    yield `Packing ${source.name} (${source.spec})...\n`;
+    let packed: PackedRepository;
+    try {
+      packed = await abortable(packRepository(directory, {}, options), options.signal);
+    } catch (error) {
+      throw new FileError(`Failed to pack repository ${source.spec}`, error);
+    }
+
+    let text = packed.text;
+    let tokens = packed.result.totalTokens;
+    let totalFiles = packed.result.totalFiles;
+    const budget = options.maxRepoTokens;
+    if (budget && tokens > budget) {
+      const kept = await selectFilesWithinBudget(query, packed, directory, budget, options.signal);
+      text = filterPackedFiles(text, kept);
+      tokens = countTokens(text);
+      totalFiles = kept.size;
+      yield `${source.name} has ${packed.result.totalTokens} tokens, keeping the ${kept.size} of ${packed.result.totalFiles} files that best match the query within ${budget} tokens\n`;
+    }
+
+    const name = source.name;
+    packs.push({
+      name,
+      directory,
+      text: renamePackedFiles(text, (path) => `${name}/${path}`),
+      tokens,
+      totalFiles,
+      droppedFiles: packed.result.totalFiles - totalFiles,
+    });
+  }
+  return packs;
+}
+
+/**
+ * Joins the packs of several repositories into one context, each labeled with its name.
+ */
+export function formatRepositories(packs: PackedRepositorySource[]): string {
+  return packs
+    .map((pack) => `<repository name="${pack.name}">\n${pack.text.trim()}\n</repository>`)
+    .join('\n\n');
+}
+
+/**
+ * Where a file given by its repository-qualified path is on disk, undefined when the path doesn't
+ * start with the name of one of the repositories.
+ */
+export function getRepositoryFilePath(
+  packs: PackedRepositorySource[],
+  path: string
+): string | undefined {
+  const separator = path.indexOf('/');
+  const pack = packs.find((candidate) => candidate.name === path.slice(0, separator));
+  return pack ? join(pack.directory, path.slice(separator + 1)) : undefined;
+}
+
+/**
+ * Packs the given repository-qualified files of each repository again with `overrides`, keeping
+ * the repository labels. Paths that don't start with the name of a repository are left out.
+ */
+export async function packRepositoryFiles(
+  packs: PackedRepositorySource[],
+  paths: string[],
+  overrides: Partial<RepomixConfig>,
+  signal?: AbortSignal
+): Promise<PackedRepositorySource[]> {
+  const selected: PackedRepositorySource[] = [];
+  for (const pack of packs) {
+    const prefix = `${pack.name}/`;
+    const include = paths
+      .filter((path) => path.startsWith(prefix))
+      .map((path) => path.slice(prefix.length));
+    if (include.length === 0) {
+      continue;
+    }
+    const packed = await abortable(
+      packRepository(pack.directory, { ...overrides, include }),
+      signal
+    );
+    selected.push({
+      ...pack,
+      text: renamePackedFiles(packed.text, (path) => `${prefix}${path}`),
+      tokens: packed.result.totalTokens,
+      totalFiles: packed.result.totalFiles,
+      droppedFiles: 0,
+    });
+  }
+  return selected;
+}
@@ -0,0 +1,307 @@
+import { createHash } from 'node:crypto';
+import { existsSync, readdirSync, readFileSync, rmSync, statSync } from 'node:fs';
+import { mkdir, rename, stat, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join, resolve } from 'node:path';
+import {
+  collectFiles,
+  pack,
+  processFiles,
+  runSecurityCheck,
+  TokenCounter,
+  type RepomixConfig,
+  type SuspiciousFileResult,
+} from 'repomix';
+import type { AsyncReturnType } from '../utils/AsyncReturnType';
+import { loadConfig } from '../config';
+import { loadFileConfigWithOverrides, type PackScope } from './repomixConfig';
+
+export const PACK_CACHE_DIR = join(homedir(), '.vibe-tools', 'cache', 'packs');
+
+// Bumped when the layout of the index changes, older indexes are then ignored
+const INDEX_VERSION = 1;
+
+type RepomixConfigMerged = Parameters<typeof pack>[1];
+type PackDeps = NonNullable<Parameters<typeof pack>[3]>;
+type RawFile = AsyncReturnType<typeof collectFiles>[number];
+
+interface CachedFile {
+  mtimeMs: number;
+  size: number;
+  content?: string; // Processed content, undefined when Repomix skipped the file (binary or too large)
+  suspicious?: boolean; // Flagged by the security check, such files are checked again on every pack
+  tokens?: number;
+}
+
+interface PackIndex {
+  version: number;
+  configHash: string;
+  files: Record<string, CachedFile>;
+}
+
+export interface PackedRepository {
+  result: AsyncReturnType<typeof pack>;
+  text: string;
+  outputPath?: string; // Where the pack was stored, undefined when the pack cache is disabled
+  reusedFiles: number; // Files taken from the cache instead of being read and processed again
+}
+
+export interface PackCacheStats {
+  directory: string;
+  repositories: number;
+  sizeBytes: number;
+  enabled: boolean;
+}
+
+function isPackCacheEnabled(): boolean {
+  return loadConfig().cache?.packs !== false;
+}
+
+/**
+ * Directory holding the cached data of a repository, `source` is its absolute path or, for remote
+ * repositories, the name they were fetched by.
+ */
+export function getPackCacheDir(source: string): string {
+  const key = createHash('sha256').update(source).digest('hex').slice(0, 16);
+  return join(PACK_CACHE_DIR, key);
+}
+
+// Everything that changes how files are read and processed. Which files are packed (include and
+// ignore) and the output path are not part of it, so packs of a few files share the index.
+function getConfigHash(config: RepomixConfigMerged): string {
+  const { include: _include, ignore: _ignore, ...processing } = config;
+  return createHash('sha256')
+    .update(JSON.stringify({ ...processing, output: { ...config.output, filePath: undefined } }))
+    .digest('hex');
+}
+
+function readIndex(path: string, configHash: string): PackIndex['files'] {
+  try {
+    const index = JSON.parse(readFileSync(path, 'utf-8')) as PackIndex;
+    if (index.version === INDEX_VERSION && index.configHash === configHash) {
+      return index.files;
+    }
+  } catch {
+    // A missing or corrupt index means every file is packed again
+  }
+  return {};
+}
+
+// Written to a temporary file first so concurrent commands never read a partial file
+export async function writeAtomically(path: string, content: string): Promise<void> {
+  const temporaryPath = `${path}.${process.pid}.tmp`;
+  await writeFile(temporaryPath, content, 'utf-8');
+  await rename(temporaryPath, path);
+}
+
+/**
+ * Counts the tokens of an XML pack from the cached counts of its files, only the text around the
+ * files is tokenized again. Returns undefined when the output doesn't have the expected layout.
+ */
+function countPackTokens(
+  output: string,
+  fileTokens: Map<string, { content: string; tokens: number }>,
+  counter: TokenCounter
+): number | undefined {
+  const filePattern = /<file path="([^"]*)">\n/g;
+  let total = 0;
+  let surrounding = '';
+  let position = 0;
+  for (let match = filePattern.exec(output); match; match = filePattern.exec(output)) {
+    const file = fileTokens.get(match[1]);
+    const contentStart = match.index + match[0].length;
+    if (!file || !output.startsWith(file.content, contentStart)) {
+      return undefined;
+    }
+    surrounding += output.slice(position, contentStart);
+    total += file.tokens;
+    position = contentStart + file.content.length;
+    filePattern.lastIndex = position;
+  }
+  return total + counter.countTokens(surrounding + output.slice(position));
+}
+
+/**
+ * Packs a directory with Repomix, reusing the files that didn't change since the last pack of the
+ * same directory. Files are matched by path, modification time and size; changed files are read,
+ * checked, processed and tokenized again. The index is shared by repo, plan and doc, and the pack
+ * is written to ~/.vibe-tools/cache/packs instead of the working directory.
+ */
+export async function packRepository(
+  directory: string,
+  overrides: Partial<RepomixConfig> = {},
+  scope: PackScope = {}
+): Promise<PackedRepository> {
+  const enabled = isPackCacheEnabled();
+  const cacheDir = getPackCacheDir(resolve(directory));
+  const indexPath = join(cacheDir, 'index.json');
+  const outputPath = join(cacheDir, 'output.txt');
+
+  const config = await loadFileConfigWithOverrides(directory, overrides, scope);
+  const configHash = getConfigHash(config);
+  const previous = enabled ? readIndex(indexPath, configHash) : {};
+  const next: PackIndex['files'] = {};
+  // Paths of files whose content comes from the cache, they skip the security check and processing
+  const reused = new Set<string>();
+
+  let output = '';
+  const deps: Partial<PackDeps> = {
+    collectFiles: async (filePaths, rootDir, collectConfig, progressCallback) => {
+      const stats = await Promise.all(filePaths.map((filePath) => stat(join(rootDir, filePath))));
+      const changed: string[] = [];
+      for (const [index, filePath] of filePaths.entries()) {
+        const { mtimeMs, size } = stats[index];
+        const cached = previous[filePath];
+        // The findings of suspicious files contain the secrets, they are not cached
+        if (cached && !cached.suspicious && cached.mtimeMs === mtimeMs && cached.size === size) {
+          next[filePath] = cached;
+          reused.add(filePath);
+        } else {
+          next[filePath] = { mtimeMs, size };
+          changed.push(filePath);
+        }
+      }
+
+      const collected = new Map<string, RawFile>();
+      if (changed.length > 0) {
+        for (const file of await collectFiles(changed, rootDir, collectConfig, progressCallback)) {
+          collected.set(file.path, file);
+        }
+      }
+
+      // Keeps Repomix's order, skipped files are left out like collectFiles does
+      const rawFiles: RawFile[] = [];
+      for (const filePath of filePaths) {
+        const content = reused.has(filePath) ? next[filePath].content : undefined;
+        const rawFile =
+          content !== undefined ? { path: filePath, content } : collected.get(filePath);
+        if (rawFile) {
+          rawFiles.push(rawFile);
+        }
+      }
+      return rawFiles;
+    },
+
+    validateFileSafety: async (rawFiles, progressCallback, safetyConfig) => {
+      const changed = rawFiles.filter((file) => !reused.has(file.path));
+      let suspiciousFilesResults: SuspiciousFileResult[] = [];
+      if (safetyConfig.security.enableSecurityCheck && changed.length > 0) {
+        progressCallback('Running security check...');
+        suspiciousFilesResults = await runSecurityCheck(changed, progressCallback);
+      }
+      for (const result of suspiciousFilesResults) {
+        next[result.filePath].suspicious = true;
+      }
+
+      const suspiciousPaths = new Set(suspiciousFilesResults.map((result) => result.filePath));
+      const safeRawFiles = rawFiles.filter((file) => !suspiciousPaths.has(file.path));
+      return {
+        safeRawFiles,
+        safeFilePaths: safeRawFiles.map((file) => file.path),
+        suspiciousFilesResults,
+      };
+    },
+
+    processFiles: async (rawFiles, processConfig, progressCallback) => {
+      const changed = rawFiles.filter((file) => !reused.has(file.path));
+      const processed = new Map<string, string>();
+      if (changed.length > 0) {
+        for (const file of await processFiles(changed, processConfig, progressCallback)) {
+          processed.set(file.path, file.content);
+          next[file.path].content = file.content;
+        }
+      }
+      return rawFiles.map((file) => ({
+        path: file.path,
+        content: processed.get(file.path) ?? file.content,
+      }));
+    },
+
+    handleOutput: async (packOutput) => {
+      output = packOutput;
+    },
+
+    calculateMetrics: async (processedFiles, packOutput, progressCallback, metricsConfig) => {
+      progressCallback('Calculating metrics...');
+      const counter = new TokenCounter(metricsConfig.tokenCount.encoding);
+      try {
+        const fileTokens = new Map<string, { content: string; tokens: number }>();
+        const fileCharCounts: Record<string, number> = {};
+        const fileTokenCounts: Record<string, number> = {};
+        for (const file of processedFiles) {
+          const entry = next[file.path];
+          entry.tokens ??= counter.countTokens(file.content, file.path);
+          fileTokens.set(file.path, { content: file.content, tokens: entry.tokens });
+          fileCharCounts[file.path] = file.content.length;
+          fileTokenCounts[file.path] = entry.tokens;
+        }
+        return {
+          totalFiles: processedFiles.length,
+          totalCharacters: packOutput.length,
+          totalTokens:
+            countPackTokens(packOutput, fileTokens, counter) ?? counter.countTokens(packOutput),
+          fileCharCounts,
+          fileTokenCounts,
+        };
+      } finally {
+        counter.free();
+      }
+    },
+  };
+
+  const result = await pack([directory], config, undefined, deps);
+
+  if (!enabled) {
+    return { result, text: output, reusedFiles: 0 };
+  }
+
+  try {
+    await mkdir(cacheDir, { recursive: true });
+    // Files left out of this pack stay in the index until they are deleted
+    const files = { ...next };
+    for (const [filePath, cached] of Object.entries(previous)) {
+      if (!files[filePath] && existsSync(join(directory, filePath))) {
+        files[filePath] = cached;
+      }
+    }
+    const index: PackIndex = { version: INDEX_VERSION, configHash, files };
+    await writeAtomically(indexPath, JSON.stringify(index));
+    await writeAtomically(outputPath, output);
+  } catch (error) {
+    // Caching is best effort, a failed write must never fail the command
+    console.error('Failed to write pack cache:', error);
+  }
+  return { result, text: output, outputPath, reusedFiles: reused.size };
+}
+
+export function getPackCacheStats(): PackCacheStats {
+  const stats: PackCacheStats = {
+    directory: PACK_CACHE_DIR,
+    repositories: 0,
+    sizeBytes: 0,
+    enabled: isPackCacheEnabled(),
+  };
+  if (!existsSync(PACK_CACHE_DIR)) {
+    return stats;
+  }
+  for (const entry of readdirSync(PACK_CACHE_DIR)) {
+    const repositoryDir = join(PACK_CACHE_DIR, entry);
+    stats.repositories++;
+    for (const file of readdirSync(repositoryDir)) {
+      stats.sizeBytes += statSync(join(repositoryDir, file)).size;
+    }
+  }
+  return stats;
+}
+
+/**
+ * Removes the cached packs of all repositories. Returns the number of repositories removed.
+ */
+export function clearPackCache(): number {
+  if (!existsSync(PACK_CACHE_DIR)) {
+    return 0;
+  }
+  const repositories = readdirSync(PACK_CACHE_DIR);
+  rmSync(PACK_CACHE_DIR, { recursive: true, force: true });
+  return repositories.length;
+}
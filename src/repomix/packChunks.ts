@@ -0,0 +1,166 @@
+import { chunkMessage } from '../utils/messageChunker';
+
+// Rough token estimate, packs are split with a safety margin so this doesn't need to be exact
+const CHARS_PER_TOKEN = 4;
+
+export interface PackedFile {
+  path: string;
+  text: string; // The file's complete <file> element
+  tokens: number;
+}
+
+export interface PackChunk {
+  directories: string[]; // Directories whose files are (at least partly) in this chunk
+  text: string;
+  tokens: number;
+}
+
+// A file element ends at the </file> followed by the next file or the end of the files, so files
+// that contain "</file>" themselves (such as this one) are not cut short
+const FILE_ELEMENT_PATTERN =
+  /<file path="([^"]*)">[\s\S]*?<\/file>(?=\s*(?:<file path="|<\/files>|$))/g;
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function sumTokens(files: PackedFile[]): number {
+  return files.reduce((sum, file) => sum + file.tokens, 0);
+}
+
+/**
+ * Extracts the files of a Repomix XML pack. Text outside of file elements (summary, directory
+ * structure) is dropped.
+ */
+export function parsePackedFiles(packOutput: string): PackedFile[] {
+  const files: PackedFile[] = [];
+  for (const match of packOutput.matchAll(FILE_ELEMENT_PATTERN)) {
+    files.push({ path: match[1], text: match[0], tokens: estimateTokens(match[0]) });
+  }
+  return files;
+}
+
+/**
+ * Removes the files that are not in `paths` from a Repomix XML pack, keeping the summary and the
+ * directory structure.
+ */
+export function filterPackedFiles(packOutput: string, paths: Set<string>): string {
+  // The blank lines before a removed file are removed with it
+  const pattern = new RegExp(`\\n*${FILE_ELEMENT_PATTERN.source}`, 'g');
+  return packOutput.replace(pattern, (match, path: string) => (paths.has(path) ? match : ''));
+}
+
+/**
+ * Replaces the lines of every file of a Repomix XML pack with those returned by `transform`,
+ * keeping the file elements and the text around them.
+ */
+export function mapPackedFileLines(
+  packOutput: string,
+  transform: (path: string, lines: string[]) => string[]
+): string {
+  return packOutput.replace(FILE_ELEMENT_PATTERN, (element: string, path: string) => {
+    const open = element.slice(0, element.indexOf('">') + 2);
+    const content = element.slice(open.length, -'</file>'.length).replace(/^\n|\n$/g, '');
+    return `${open}\n${transform(path, content.split('\n')).join('\n')}\n</file>`;
+  });
+}
+
+/**
+ * Changes the paths of the files of a Repomix XML pack, the directory structure is left as it is.
+ */
+export function renamePackedFiles(packOutput: string, rename: (path: string) => string): string {
+  return packOutput.replace(FILE_ELEMENT_PATTERN, (element: string, path: string) => {
+    const open = `<file path="${path}">`;
+    return `<file path="${rename(path)}">${element.slice(open.length)}`;
+  });
+}
+
+function getDirectory(path: string): string {
+  const separator = path.lastIndexOf('/');
+  return separator === -1 ? '.' : path.slice(0, separator);
+}
+
+// A file too large for any chunk is split into parts that each keep the file element wrapper
+function splitFile(file: PackedFile, maxTokens: number): PackedFile[] {
+  const open = `<file path="${file.path}">`;
+  const close = '</file>';
+  const content = file.text.slice(open.length, -close.length);
+  const wrapperTokens = estimateTokens(`<file path="${file.path}" part="0000/0000">${close}`);
+  const parts = chunkMessage(content, Math.max(1, (maxTokens - wrapperTokens) * CHARS_PER_TOKEN));
+  return parts.map((part, index) => {
+    const text = `<file path="${file.path}" part="${index + 1}/${parts.length}">${part}${close}`;
+    return { path: file.path, text, tokens: estimateTokens(text) };
+  });
+}
+
+/**
+ * Splits files into groups of at most maxTokens, keeping directories together. Directories that
+ * don't fit are split by their subdirectories, files that don't fit are split into parts.
+ */
+function groupFiles(files: PackedFile[], depth: number, maxTokens: number): PackedFile[][] {
+  if (sumTokens(files) <= maxTokens) {
+    return [files];
+  }
+
+  // Files directly in the directory at this depth are keyed '', subdirectories by their path
+  const groups = new Map<string, PackedFile[]>();
+  for (const file of files) {
+    const segments = file.path.split('/');
+    const key = segments.length > depth + 1 ? segments.slice(0, depth + 1).join('/') : '';
+    groups.set(key, [...(groups.get(key) ?? []), file]);
+  }
+
+  const chunks: PackedFile[][] = [];
+  let current: PackedFile[] = [];
+  const flush = () => {
+    if (current.length > 0) {
+      chunks.push(current);
+      current = [];
+    }
+  };
+
+  for (const [key, group] of groups) {
+    const units =
+      key === ''
+        ? group.flatMap((file) =>
+            file.tokens > maxTokens ? splitFile(file, maxTokens).map((part) => [part]) : [[file]]
+          )
+        : [group];
+    for (const unit of units) {
+      const unitTokens = sumTokens(unit);
+      if (unitTokens > maxTokens) {
+        flush();
+        chunks.push(...(key === '' ? [unit] : groupFiles(unit, depth + 1, maxTokens)));
+        continue;
+      }
+      if (sumTokens(current) + unitTokens > maxTokens) {
+        flush();
+      }
+      current.push(...unit);
+    }
+  }
+  flush();
+  return chunks;
+}
+
+/**
+ * Splits a Repomix XML pack into chunks of at most maxTokens (estimated), grouped by directory
+ * so related files are analyzed together.
+ */
+export function splitPackByDirectory(packOutput: string, maxTokens: number): PackChunk[] {
+  const files = parsePackedFiles(packOutput).sort((a, b) => a.path.localeCompare(b.path));
+  if (files.length === 0) {
+    // Not a Repomix XML pack, fall back to splitting the plain text
+    return chunkMessage(packOutput, maxTokens * CHARS_PER_TOKEN).map((text) => ({
+      directories: [],
+      text,
+      tokens: estimateTokens(text),
+    }));
+  }
+
+  return groupFiles(files, 0, maxTokens).map((group) => ({
+    directories: [...new Set(group.map((file) => getDirectory(file.path)))],
+    text: group.map((file) => file.text).join('\n\n'),
+    tokens: sumTokens(group),
+  }));
+}
@@ -1,6 +1,8 @@
 import path from 'node:path';
 import type { RepomixConfig, pack } from 'repomix';
+import { existsSync } from 'node:fs';
 import { readFile, stat } from 'node:fs/promises';
+import { FileError } from '../errors';
 
 type RepomixConfigMerged = Parameters<typeof pack>[1];
 export const ignorePatterns = [
@@ -53,6 +55,14 @@ export const outputOptions = {
 } as const;
 
 const defaultConfigPath = 'repomix.config.json';
+const ignoreFileName = '.vibetoolsignore';
+
+// Narrows what repo, plan and doc pack, set from --include, --exclude and --files
+export interface PackScope {
+  include?: string[]; // Globs of the files to pack, instead of the configured include patterns
+  exclude?: string[]; // Globs of files to leave out, added to the ignore patterns
+  files?: string; // File listing the paths to pack, one per line, relative to the current directory
+}
 
 function getGlobalConfigPath() {
   // get from the home directory on windows or linux
@@ -83,6 +93,15 @@ const defaultConfig = {
 } as const;
 
 export const loadFileConfigWithOverrides = async (
+  rootDir: string,
+  overrides: Partial<RepomixConfig>,
+  scope: PackScope = {}
+): Promise<RepomixConfigMerged> => {
+  const config = await loadMergedConfig(rootDir, overrides);
+  return applyScope(config, rootDir, scope, overrides.include !== undefined);
+};
+
+const loadMergedConfig = async (
   rootDir: string,
   overrides: Partial<RepomixConfig>
 ): Promise<RepomixConfigMerged> => {
@@ -120,6 +139,75 @@ export const loadFileConfigWithOverrides = async (
   return mergeRepomixConfigs([defaultConfig, overrides], rootDir);
 };
 
+/**
+ * Converts .gitignore style lines to the globs Repomix ignores. Like in .gitignore, patterns
+ * without a slash match at any depth and a leading slash anchors them to the root. Negations are
+ * not supported.
+ */
+const parseIgnorePatterns = (content: string): string[] =>
+  content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#') && !line.startsWith('!'))
+    .map((line) => {
+      const anchored = line.startsWith('/');
+      const pattern = anchored ? line.slice(1) : line;
+      const matchesAnyDepth = !anchored && !pattern.replace(/\/$/, '').includes('/');
+      return `${matchesAnyDepth ? '**/' : ''}${pattern.endsWith('/') ? `${pattern}**` : pattern}`;
+    });
+
+const readFileList = async (listPath: string, rootDir: string): Promise<string[]> => {
+  let content: string;
+  try {
+    content = await readFile(listPath, 'utf-8');
+  } catch (error) {
+    throw new FileError(`Cannot read the file list ${listPath}`, error);
+  }
+  const paths = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+  if (paths.length === 0) {
+    throw new FileError(`The file list ${listPath} is empty`);
+  }
+  for (const listed of paths.filter((listed) => !existsSync(listed))) {
+    console.error(`Warning: ${listed} from ${listPath} does not exist`);
+  }
+  // Repomix matches paths relative to the packed directory, with forward slashes
+  return paths.map((listed) =>
+    path.relative(rootDir, path.resolve(listed)).split(path.sep).join('/')
+  );
+};
+
+/**
+ * Applies --include, --files and --exclude and the patterns of .vibetoolsignore in the packed
+ * directory. An include set by the caller, such as the files plan identified, wins over --include
+ * and --files.
+ */
+const applyScope = async (
+  config: RepomixConfigMerged,
+  rootDir: string,
+  scope: PackScope,
+  hasIncludeOverride: boolean
+): Promise<RepomixConfigMerged> => {
+  const include = [
+    ...(scope.include ?? []),
+    ...(scope.files ? await readFileList(scope.files, rootDir) : []),
+  ];
+  const ignoreFileContent = await readFile(path.join(rootDir, ignoreFileName), 'utf-8').catch(
+    () => ''
+  );
+  const exclude = [...(scope.exclude ?? []), ...parseIgnorePatterns(ignoreFileContent)];
+  return {
+    ...config,
+    include: include.length > 0 && !hasIncludeOverride ? include : config.include,
+    ignore: {
+      ...config.ignore,
+      customPatterns: [...(config.ignore.customPatterns ?? []), ...exclude],
+    },
+  };
+};
+
 const loadAndValidateConfig = async (filePath: string): Promise<RepomixConfig> => {
   try {
     const fileContent = await readFile(filePath, 'utf-8');
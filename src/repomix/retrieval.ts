@@ -0,0 +1,255 @@
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import OpenAI from 'openai';
+import { loadConfig } from '../config';
+import { ProviderError } from '../errors';
+import { getPackCacheDir, writeAtomically } from './packCache';
+import { parsePackedFiles } from './packChunks';
+
+// Bumped when tokenization or the layout of the index changes, older indexes are then rebuilt
+const INDEX_VERSION = 1;
+
+// The usual BM25 defaults
+const K1 = 1.2;
+const B = 0.75;
+// A term in a file's path or in a name it declares counts as this many occurrences in its content
+const NAME_WEIGHT = 3;
+// Characters of a file sent to the embedding model, local models have small input windows
+const MAX_EMBEDDING_CHARS = 8_000;
+const EMBEDDING_BATCH_SIZE = 32;
+
+// Words too common in code and questions to tell files apart
+const STOP_WORDS = new Set(
+  (
+    'a an and are as at be by do does for from how if in is it of on or the this to what when ' +
+    'where which why with const let var import export return new true false null undefined file path'
+  ).split(' ')
+);
+
+// Declarations in the common languages: JS/TS, Python, Go, Rust, Java, C#, Ruby, Swift
+const SYMBOL_PATTERN =
+  /\b(?:function|class|interface|type|enum|struct|trait|impl|def|fn|func|module|namespace|protocol)\s+([A-Za-z_$][\w$]*)/g;
+
+interface IndexedFile {
+  hash: string;
+  length: number; // Number of terms, weighted like the term counts
+  terms: Record<string, number>;
+}
+
+interface RetrievalIndex {
+  version: number;
+  files: Record<string, IndexedFile>;
+  embeddingModel?: string;
+  embeddings: Record<string, number[]>; // Keyed by content hash so renamed files keep theirs
+}
+
+export interface RankedFile {
+  path: string;
+  score: number;
+}
+
+/**
+ * Splits text into lowercase terms. Identifiers are kept whole and also split into their camelCase
+ * and snake_case parts, so `getUserName` matches queries for "user name".
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const identifier of text.match(/[A-Za-z][A-Za-z0-9_]*/g) ?? []) {
+    const parts = identifier
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_]+/);
+    for (const term of new Set([identifier, ...parts].map((part) => part.toLowerCase()))) {
+      if (term.length > 1 && !STOP_WORDS.has(term)) {
+        terms.push(term);
+      }
+    }
+  }
+  return terms;
+}
+
+function indexFile(path: string, text: string, hash: string): IndexedFile {
+  const terms: Record<string, number> = {};
+  let length = 0;
+  const add = (words: string[], weight: number) => {
+    for (const word of words) {
+      terms[word] = (terms[word] ?? 0) + weight;
+      length += weight;
+    }
+  };
+  add(tokenize(text), 1);
+  add(tokenize(path.replace(/[/.-]/g, ' ')), NAME_WEIGHT);
+  add(tokenize([...text.matchAll(SYMBOL_PATTERN)].map((match) => match[1]).join(' ')), NAME_WEIGHT);
+  return { hash, length, terms };
+}
+
+function readIndex(path: string): RetrievalIndex {
+  try {
+    const index = JSON.parse(readFileSync(path, 'utf-8')) as RetrievalIndex;
+    if (index.version === INDEX_VERSION) {
+      return index;
+    }
+  } catch {
+    // A missing or corrupt index is rebuilt
+  }
+  return { version: INDEX_VERSION, files: {}, embeddings: {} };
+}
+
+function scoreBm25(queryTerms: string[], files: Record<string, IndexedFile>): Map<string, number> {
+  const documents = Object.entries(files);
+  const averageLength =
+    documents.reduce((sum, [, file]) => sum + file.length, 0) / Math.max(documents.length, 1);
+
+  const scores = new Map<string, number>();
+  for (const term of new Set(queryTerms)) {
+    const matching = documents.filter(([, file]) => file.terms[term]);
+    const idf = Math.log(1 + (documents.length - matching.length + 0.5) / (matching.length + 0.5));
+    for (const [path, file] of matching) {
+      const frequency = file.terms[term];
+      const score =
+        (idf * frequency * (K1 + 1)) /
+        (frequency + K1 * (1 - B + (B * file.length) / averageLength));
+      scores.set(path, (scores.get(path) ?? 0) + score);
+    }
+  }
+  return scores;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Scales scores to 0..1 so lexical and semantic scores can be added
+function normalize(scores: Map<string, number>): Map<string, number> {
+  const values = [...scores.values()];
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min;
+  return new Map([...scores].map(([path, score]) => [path, range ? (score - min) / range : 1]));
+}
+
+/**
+ * Embeds the files that have no embedding yet and the query with the model configured in
+ * `retrieval.embeddings`, then returns the similarity of each file to the query. Returns undefined
+ * when no embedding model is configured.
+ */
+async function scoreEmbeddings(
+  query: string,
+  files: { path: string; text: string; hash: string }[],
+  index: RetrievalIndex,
+  signal?: AbortSignal
+): Promise<Map<string, number> | undefined> {
+  const settings = loadConfig().retrieval?.embeddings;
+  if (!settings) {
+    return undefined;
+  }
+  const apiKey = settings.apiKeyEnv ? process.env[settings.apiKeyEnv] : 'none';
+  if (!apiKey) {
+    throw new ProviderError(
+      `API key for the embedding model is not set. Please set the ${settings.apiKeyEnv} environment variable.`
+    );
+  }
+  const client = new OpenAI({ apiKey, baseURL: settings.baseURL });
+  const embed = async (input: string[]) => {
+    try {
+      // Local servers don't all support the SDK's default base64 encoding
+      const response = await client.embeddings.create(
+        { model: settings.model, input, encoding_format: 'float' },
+        { signal }
+      );
+      return response.data.map((item) => item.embedding);
+    } catch (error) {
+      signal?.throwIfAborted();
+      throw new ProviderError(
+        `Failed to compute embeddings with ${settings.model} at ${settings.baseURL}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  };
+
+  if (index.embeddingModel !== settings.model) {
+    index.embeddingModel = settings.model;
+    index.embeddings = {};
+  }
+  const missing = files.filter((file) => !index.embeddings[file.hash]);
+  for (let start = 0; start < missing.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = missing.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const vectors = await embed(batch.map((file) => file.text.slice(0, MAX_EMBEDDING_CHARS)));
+    batch.forEach((file, i) => (index.embeddings[file.hash] = vectors[i]));
+  }
+
+  const [queryVector] = await embed([query]);
+  return new Map(
+    files.map((file) => [file.path, cosineSimilarity(queryVector, index.embeddings[file.hash])])
+  );
+}
+
+/**
+ * Ranks the files of a Repomix XML pack by how well they match the query, with BM25 over their
+ * contents, paths and declared names, plus the similarity of embeddings when
+ * `retrieval.embeddings` is configured. The index is kept next to the pack cache of `source` and
+ * only files whose content changed are indexed again. Returns at most `topK` files, best first.
+ */
+export async function rankFiles(
+  query: string,
+  packOutput: string,
+  source: string,
+  topK: number,
+  signal?: AbortSignal
+): Promise<RankedFile[]> {
+  const cacheDir = getPackCacheDir(source);
+  const indexPath = join(cacheDir, 'retrieval.json');
+  const previous = readIndex(indexPath);
+
+  const files = parsePackedFiles(packOutput).map((file) => ({
+    path: file.path,
+    text: file.text,
+    hash: createHash('sha256').update(file.text).digest('hex'),
+  }));
+  const index: RetrievalIndex = { ...previous, files: {} };
+  for (const file of files) {
+    const cached = previous.files[file.path];
+    index.files[file.path] =
+      cached?.hash === file.hash ? cached : indexFile(file.path, file.text, file.hash);
+  }
+
+  let scores = scoreBm25(tokenize(query), index.files);
+  const similarities = await scoreEmbeddings(query, files, index, signal);
+  if (similarities) {
+    // Embeddings of deleted or changed files are not needed anymore
+    const hashes = new Set(files.map((file) => file.hash));
+    index.embeddings = Object.fromEntries(
+      Object.entries(index.embeddings).filter(([hash]) => hashes.has(hash))
+    );
+    const lexical = scores.size > 0 ? normalize(scores) : new Map<string, number>();
+    const semantic = normalize(similarities);
+    scores = new Map(
+      files.map((file) => [
+        file.path,
+        (lexical.get(file.path) ?? 0) + (semantic.get(file.path) ?? 0),
+      ])
+    );
+  }
+
+  try {
+    await mkdir(cacheDir, { recursive: true });
+    await writeAtomically(indexPath, JSON.stringify(index));
+  } catch (error) {
+    // Indexing is best effort like the pack cache, the ranking is still valid
+    console.error('Failed to write retrieval index:', error);
+  }
+
+  return [...scores]
+    .filter(([, score]) => score > 0)
+    .map(([path, score]) => ({ path, score }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
@@ -19,21 +19,46 @@ export type Provider =
   | 'apizh-web'
   | 'apizh-reasoning'
   | 'apizh-cost'
-  | 'apizh-nix';
+  | 'apizh-nix'
+  | 'ollama';
 
 // Zod schema for reasoning effort
 export const reasoningEffortSchema = z.enum(['low', 'medium', 'high']);
 export type ReasoningEffort = z.infer<typeof reasoningEffortSchema>;
 
+// How repo sends the packed repository to the model: all at once or split into parts (map-reduce)
+export const repoStrategySchema = z.enum(['auto', 'single', 'mapreduce']);
+export type RepoStrategy = z.infer<typeof repoStrategySchema>;
+
+// Provider declared in the customProviders section of vibe-tools.config.json, usable with --provider
+// like the built-in ones. `kind` selects the API it speaks.
+export const customProviderSchema = z.object({
+  name: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9-]*$/, 'must consist of lowercase letters, digits and dashes'),
+  kind: z.enum(['openai', 'anthropic']),
+  baseURL: z.string().url(),
+  apiKeyEnv: z.string().optional(), // Environment variable holding the API key, omit for gateways without authentication
+  headers: z.record(z.string()).optional(), // Sent with every request
+  models: z.array(z.string()).optional(), // Models served by the provider, the first one is the default
+});
+export type CustomProviderConfig = z.infer<typeof customProviderSchema>;
+
 // Base options shared by all commands
 export interface CommandOptions {
   // Core options
   model?: string;
   maxTokens?: number;
   provider?: Provider;
+  models?: string; // Comma-separated provider:model list to ask concurrently (for ask and repo)
+  judge?: string; // provider:model that combines the answers of --models
   debug: boolean;
+  cache?: boolean; // Set to false by --no-cache to bypass the on-disk response cache
+  maxCost?: number; // Maximum spend in USD for this command
+  dryRun?: boolean; // Print the context budget and the prompt instead of calling the model
   url?: string;
   json?: boolean | string; // Output results as JSON or provide JSON configuration
+  schema?: string; // Path to a JSON schema the ask answer must match
 
   // OpenAI and OpenRouter reasoning options
   reasoningEffort?: ReasoningEffort; // Support for OpenAI o1 and o3 reasoning effort
@@ -47,6 +72,22 @@ export interface CommandOptions {
   subdir?: string; // Subdirectory to analyze (for repo command)
   withDoc?: string[]; // URL of a page containing additional context information to use
   fromGithub?: string; // GitHub repository to analyze (for repo and doc commands)
+  fromGit?: string; // Git URL or path of a repository to analyze, with an optional @ref (for repo and doc)
+  repoPath?: string[]; // Directories or git repositories packed side by side (for repo and plan)
+  maxRepoTokens?: number; // Token budget of each --repo-path repository
+  strategy?: RepoStrategy; // Split repositories that don't fit the model's context window (for repo)
+  retrieve?: number; // Send only the files that best match the query, ranked locally (for repo and plan)
+  cite?: boolean; // Ask repo for path:line citations and verify them against the packed files
+  compress?: boolean; // Reduce files outside of the retrieved, changed or blamed ones to signatures (for repo and plan)
+  include?: string[]; // Globs of the files to pack (for repo, plan and doc)
+  exclude?: string[]; // Globs of files to leave out of the pack (for repo, plan and doc)
+  files?: string; // File listing the paths to pack, one per line (for repo, plan and doc)
+  image?: string[]; // Local images attached to the ask prompt
+  file?: string[]; // Local text files inlined into the ask prompt
+
+  // Session options
+  session?: string; // Name of the session to start or continue (ask and repo)
+  continue?: boolean; // Continue the most recently used session
 
   // Plan command specific options
   fileProvider?: Provider;
@@ -58,12 +99,15 @@ export interface CommandOptions {
   tokenCount?: number; // For handling large token counts (passed down)
   webSearch?: boolean; // Whether web search is enabled (passed down)
   timeout?: number; // Specific timeout for this command (passed down)
+  signal?: AbortSignal; // Aborted on Ctrl-C or when --timeout elapses, cancels in-flight work
 
   // Telemetry tracking
   trackTelemetry?: (data: Record<string, any>) => void; // Function to update telemetry data
 
   // Git diff options
   withDiff?: boolean; // Include git diff in repository analysis
+  withHistory?: number; // Include the last N commits touching the packed files (for repo)
+  withBlame?: string[]; // Files whose git blame is included (for repo)
   base?: string; // Base branch for diff comparison (default: main)
 }
 
@@ -75,6 +119,23 @@ export interface CommandMap {
   [key: string]: Command;
 }
 
+// Client-side limits for the calls made to one provider
+export interface RateLimitSettings {
+  maxConcurrent?: number; // Calls running at the same time (default: 4)
+  requestsPerMinute?: number;
+  tokensPerMinute?: number; // Estimated prompt tokens plus maxTokens, corrected with reported usage
+}
+
+// Model prices in USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+  // Some models charge more once the prompt exceeds a number of tokens
+  longContextThreshold?: number;
+  longContextInput?: number;
+  longContextOutput?: number;
+}
+
 // Interface for the vibe-tools.config.json config file
 export interface Config {
   ide?: string; // The IDE being used (cursor, claude-code, windsurf, cline, roo)
@@ -90,12 +151,14 @@ export interface Config {
     thinkingModel?: string;
     fileMaxTokens?: number;
     thinkingMaxTokens?: number;
+    compress?: boolean; // Identify files from their signatures, like --compress
   };
   repo?: {
     provider: Provider;
     model?: string;
     maxTokens?: number;
     maxRepoSizeMB?: number; // Maximum repository size in MB for remote processing
+    compress?: boolean; // Reduce files outside of the hot set to signatures, like --compress
   };
   doc?: {
     maxRepoSizeMB?: number; // Maximum repository size in MB for remote processing
@@ -103,6 +166,31 @@ export interface Config {
     model?: string;
     maxTokens?: number;
   };
+  pricing?: Record<string, ModelPricing>; // Overrides or extends the built-in price table, keyed by model name
+  budget?: {
+    maxCost?: number; // Maximum spend in USD per command, checked before each prompt is sent
+  };
+  rateLimits?: Record<string, RateLimitSettings>; // Keyed by provider name
+  customProviders?: CustomProviderConfig[]; // Additional OpenAI or Anthropic compatible providers
+  cache?: {
+    enabled?: boolean; // Cache provider responses on disk (default: true)
+    ttlHours?: number; // How long a cached response stays valid (default: 24)
+    maxSizeMB?: number; // Maximum size of the cache directory before old entries are evicted (default: 100)
+    packs?: boolean; // Reuse unchanged files when repo, plan and doc pack a repository (default: true)
+  };
+  retrieval?: {
+    embeddings?: {
+      baseURL: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama
+      model: string; // Embedding model, e.g. nomic-embed-text
+      apiKeyEnv?: string; // Environment variable holding the API key, local servers usually need none
+    };
+  };
+  audit?: {
+    enabled?: boolean; // Append every provider request and response to ~/.vibe-tools/logs/audit.jsonl (default: true)
+    maxSizeMB?: number; // Size at which the log is rotated (default: 10)
+    maxFiles?: number; // Number of log files kept, including the current one (default: 5)
+    maxContentLength?: number; // Characters of each prompt and response that are logged (default: 2000)
+  };
   tokenCount?: {
     encoding: 'o200k_base' | 'gpt2' | 'r50k_base' | 'p50k_base' | 'p50k_edit' | 'cl100k_base'; // The tokenizer encoding to use
   };
@@ -165,6 +253,7 @@ export interface ModelOptions {
   tokenCount?: number; // For handling large token counts
   webSearch?: boolean; // Whether to enable web search capabilities
   timeout?: number; // Timeout in milliseconds for model API calls
+  signal?: AbortSignal; // Cancels the API call when aborted
   debug: boolean | undefined; // Enable debug logging
 }
 
@@ -183,4 +272,6 @@ export interface BaseModelProvider {
   ): Promise<{ supported: boolean; model?: string; error?: string }>;
   // Add this optional method for video analysis
   executeVideoPrompt?(prompt: string, options: VideoAnalysisOptions): Promise<string>;
+  // Optional streaming variant of executePrompt that yields text deltas as they arrive
+  streamPrompt?(prompt: string, options: ModelOptions): AsyncGenerator<string, void, unknown>;
 }
@@ -0,0 +1,79 @@
+/**
+ * Signal aborted as soon as one of the given signals is, with that signal's reason. Stands in for
+ * AbortSignal.any, which Node 18 does not have.
+ */
+export function anySignal(...signals: Array<AbortSignal | undefined>): AbortSignal {
+  const controller = new AbortController();
+  const sources = signals.filter((signal): signal is AbortSignal => !!signal);
+  const aborted = sources.find((signal) => signal.aborted);
+  if (aborted) {
+    controller.abort(aborted.reason);
+    return controller.signal;
+  }
+
+  const onAbort = (event: Event) => {
+    controller.abort((event.target as AbortSignal).reason);
+    for (const signal of sources) {
+      signal.removeEventListener('abort', onAbort);
+    }
+  };
+  for (const signal of sources) {
+    signal.addEventListener('abort', onAbort, { once: true });
+  }
+  return controller.signal;
+}
+
+/**
+ * Runs `cleanup` when the signal aborts, such as closing a browser or stopping a spawned server.
+ * Returns a function that unregisters it once the resource has been released normally.
+ */
+export function onAbort(signal: AbortSignal | undefined, cleanup: () => unknown): () => void {
+  if (!signal) {
+    return () => {};
+  }
+  // Cleanup errors are not actionable, the command is failing with the cancellation already
+  const listener = () => {
+    void Promise.resolve()
+      .then(cleanup)
+      .catch(() => {});
+  };
+  if (signal.aborted) {
+    listener();
+    return () => {};
+  }
+  signal.addEventListener('abort', listener, { once: true });
+  return () => signal.removeEventListener('abort', listener);
+}
+
+/**
+ * Settles with the promise, or rejects with the signal's reason as soon as it aborts. For work that
+ * cannot be cancelled itself, the caller stops waiting for it.
+ */
+export function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const removeListener = onAbort(signal, () => reject(signal.reason));
+    promise.then(resolve, reject).finally(removeListener);
+  });
+}
+
+/**
+ * Waits for `ms` milliseconds, rejects with the signal's reason when it aborts first.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const removeListener = onAbort(signal, () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    });
+    const timer = setTimeout(() => {
+      removeListener();
+      resolve();
+    }, ms);
+  });
+}
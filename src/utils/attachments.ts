@@ -0,0 +1,98 @@
+import { readFileSync, statSync } from 'node:fs';
+import { extname } from 'node:path';
+import { FileError } from '../errors';
+import type { ImageAttachment } from '../providers/base';
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+// Providers reject larger images, Anthropic allows 5MB per image and OpenAI 20MB
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+// Inlined files count against the context window, anything larger belongs in repo
+const MAX_FILE_BYTES = 256 * 1024;
+const MAX_TOTAL_FILE_BYTES = 1024 * 1024;
+
+function getFileSize(path: string, kind: string): number {
+  try {
+    const stats = statSync(path);
+    if (!stats.isFile()) {
+      throw new FileError(`${kind} is not a file: ${path}`);
+    }
+    return stats.size;
+  } catch (error) {
+    if (error instanceof FileError) {
+      throw error;
+    }
+    throw new FileError(`Cannot read ${kind.toLowerCase()} ${path}`, error);
+  }
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)}MB`
+    : `${Math.ceil(bytes / 1024)}KB`;
+}
+
+export function loadImageAttachments(paths: string[]): ImageAttachment[] {
+  return paths.map((path) => {
+    const mimeType = IMAGE_MIME_TYPES[extname(path).toLowerCase()];
+    if (!mimeType) {
+      throw new FileError(
+        `Unsupported image type: ${path}. Supported types are ${Object.keys(IMAGE_MIME_TYPES).join(', ')}`
+      );
+    }
+    const size = getFileSize(path, 'Image');
+    if (size > MAX_IMAGE_BYTES) {
+      throw new FileError(
+        `Image ${path} is ${formatSize(size)}, the limit is ${formatSize(MAX_IMAGE_BYTES)}`
+      );
+    }
+    return { path, mimeType, data: readFileSync(path).toString('base64') };
+  });
+}
+
+/**
+ * Reads text files and formats them for inclusion in a prompt, each in its own fenced block
+ * labelled with its path.
+ */
+export function loadFileAttachments(paths: string[]): string {
+  let totalSize = 0;
+  const blocks = paths.map((path) => {
+    const size = getFileSize(path, 'File');
+    if (size > MAX_FILE_BYTES) {
+      throw new FileError(
+        `File ${path} is ${formatSize(size)}, the limit is ${formatSize(MAX_FILE_BYTES)}. Use the repo command for larger files.`
+      );
+    }
+    totalSize += size;
+    if (totalSize > MAX_TOTAL_FILE_BYTES) {
+      throw new FileError(
+        `Attached files exceed the combined limit of ${formatSize(MAX_TOTAL_FILE_BYTES)}`
+      );
+    }
+
+    const content = readFileSync(path);
+    if (content.includes(0)) {
+      throw new FileError(`File ${path} looks like a binary file, only text files can be attached`);
+    }
+    const text = content.toString('utf-8');
+    // Use a fence longer than any backtick run in the file so its content can't close the block
+    const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+    return `File: ${path}\n${fence}${extname(path).slice(1)}\n${text}${text.endsWith('\n') ? '' : '\n'}${fence}`;
+  });
+  return blocks.join('\n\n');
+}
+
+export async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
@@ -0,0 +1,151 @@
+import { readFileSync } from 'node:fs';
+import { mapPackedFileLines } from '../repomix/packChunks';
+
+export interface CitableContext {
+  text: string; // The pack with line numbers
+  lineCounts: Map<string, number>; // Lines of each packed file, in the file on disk when it was read
+}
+
+export interface Citation {
+  citation: string; // As written in the answer
+  path: string; // Path of the file in the repository, the cited one when it isn't found
+  startLine: number;
+  endLine: number;
+  valid: boolean;
+  reason?: string; // Why the citation doesn't match the packed files
+}
+
+// path:line and path:start-end, not preceded by a path or URL character so hosts like
+// https://example.com:8080 are not taken for files
+const CITATION_PATTERN =
+  /(?<![\w@+.\-/:])((?:\.\/)?[\w@+.-]+(?:\/[\w@+.-]+)*):(\d+)(?:-(\d+))?(?![\w/])/g;
+
+function readSourceLines(path: string): string[] | undefined {
+  try {
+    return readFileSync(path, 'utf-8')
+      .replace(/\r?\n$/, '')
+      .split(/\r?\n/);
+  } catch {
+    return undefined;
+  }
+}
+
+// Finds the line of the source file each packed line came from. Lines are matched in order, so a
+// line changed by Repomix (such as with removeComments) is left without a number.
+function getSourceLineNumbers(packed: string[], source: string[]): (number | undefined)[] {
+  let next = 0;
+  return packed.map((line) => {
+    for (let index = next; index < source.length; index++) {
+      if (source[index].trimEnd() === line.trimEnd()) {
+        next = index + 1;
+        return index + 1;
+      }
+    }
+    return undefined;
+  });
+}
+
+/**
+ * Prefixes the lines of the packed files with their numbers, so the model can cite them without
+ * counting. Repomix removes empty lines by default, so when `getSourcePath` tells where a file is
+ * on disk the lines get their numbers in that file, which is where citations are followed. Files
+ * that can't be read are numbered as packed.
+ */
+export function numberPackedLines(
+  packOutput: string,
+  getSourcePath?: (path: string) => string | undefined
+): CitableContext {
+  const lineCounts = new Map<string, number>();
+  const text = mapPackedFileLines(packOutput, (path, lines) => {
+    const sourcePath = getSourcePath?.(path);
+    const source = sourcePath ? readSourceLines(sourcePath) : undefined;
+    const numbers = source ? getSourceLineNumbers(lines, source) : lines.map((_, i) => i + 1);
+    lineCounts.set(path, source?.length ?? lines.length);
+    const width = String(
+      numbers.reduce<number>((max, number) => Math.max(max, number ?? 0), 0)
+    ).length;
+    return lines.map((line, index) => `${String(numbers[index] ?? '').padStart(width)}: ${line}`);
+  });
+  return { text, lineCounts };
+}
+
+function formatRange(path: string, startLine: number, endLine: number): string {
+  return startLine === endLine ? `${path}:${startLine}` : `${path}:${startLine}-${endLine}`;
+}
+
+// Resolves a cited path to a packed file, models sometimes leave out leading directories
+function resolvePath(cited: string, lineCounts: Map<string, number>): string | string[] {
+  const path = cited.replace(/^\.\//, '');
+  if (lineCounts.has(path)) {
+    return path;
+  }
+  const matches = [...lineCounts.keys()].filter((candidate) => candidate.endsWith(`/${path}`));
+  return matches.length === 1 ? matches[0] : matches;
+}
+
+/**
+ * Finds the path:line citations of an answer and checks each one against the files it was given:
+ * the file must be one of the packed files and the lines must exist in it. `lineCounts` comes from
+ * numberPackedLines. Citations are listed
+ * once, in the order they first appear.
+ */
+export function verifyCitations(answer: string, lineCounts: Map<string, number>): Citation[] {
+  const citations = new Map<string, Citation>();
+
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    const [citation, cited, start, end] = match;
+    // Version numbers and times look like citations too, paths have a directory or an extension
+    if (citations.has(citation) || !/[./]/.test(cited) || /^[\d.]+$/.test(cited)) {
+      continue;
+    }
+    const startLine = Number(start);
+    const endLine = end ? Number(end) : startLine;
+    const resolved = resolvePath(cited, lineCounts);
+    const path = typeof resolved === 'string' ? resolved : cited;
+    const lineCount = lineCounts.get(path);
+
+    let reason: string | undefined;
+    if (Array.isArray(resolved)) {
+      reason =
+        resolved.length === 0
+          ? 'not one of the files given to the model'
+          : `matches ${resolved.length} files: ${resolved.join(', ')}`;
+    } else if (startLine < 1 || endLine < startLine) {
+      reason = 'invalid line range';
+    } else if (lineCount !== undefined && endLine > lineCount) {
+      reason = `the file has ${lineCount} line${lineCount === 1 ? '' : 's'}`;
+    }
+    citations.set(citation, { citation, path, startLine, endLine, valid: !reason, reason });
+  }
+  return [...citations.values()];
+}
+
+/**
+ * Sources section listing the verified citations, followed by those that don't match the
+ * repository so they can be told apart from the real ones in the answer above.
+ */
+export function formatSources(citations: Citation[]): string {
+  if (citations.length === 0) {
+    return '\n\n## Sources\n\nThe answer does not cite any lines of the repository.\n';
+  }
+
+  const sources = [
+    ...new Set(
+      citations
+        .filter((citation) => citation.valid)
+        .sort((a, b) => a.path.localeCompare(b.path) || a.startLine - b.startLine)
+        .map((citation) => formatRange(citation.path, citation.startLine, citation.endLine))
+    ),
+  ];
+  let text = '\n\n## Sources\n\n';
+  text += sources.length
+    ? sources.map((source) => `- ${source}\n`).join('')
+    : 'None of the citations could be verified.\n';
+
+  const invalid = citations.filter((citation) => !citation.valid);
+  if (invalid.length > 0) {
+    text += `\nUnverified citations, they don't match the files of the repository:\n\n`;
+    text += invalid.map((citation) => `- ${citation.citation}: ${citation.reason}\n`).join('');
+  }
+  return text;
+}
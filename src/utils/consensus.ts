@@ -0,0 +1,126 @@
+import type { CommandOptions, Provider } from '../types';
+import { ProviderError } from '../errors';
+import { createProvider, executePromptStreaming, type ModelOptions } from '../providers/base';
+import { renderPrompt } from '../prompts/templates';
+import { getProviderInfo } from './providerAvailability';
+
+export interface ModelSpec {
+  provider: Provider;
+  model: string;
+}
+
+export interface ConsensusModels {
+  candidates: ModelSpec[];
+  judge: ModelSpec;
+}
+
+// A model asked for its own answer, with the prompt and options built for it
+export interface ConsensusCandidate extends ModelSpec {
+  prompt: string;
+  options: ModelOptions;
+}
+
+export function formatModelSpec(spec: ModelSpec): string {
+  return `${spec.provider}/${spec.model}`;
+}
+
+// Parses provider:model, the model may contain colons itself (llama3.1:8b)
+function parseModelSpec(value: string): ModelSpec {
+  const separator = value.indexOf(':');
+  const provider = value.slice(0, separator).trim();
+  const model = value.slice(separator + 1).trim();
+  if (separator <= 0 || !model) {
+    throw new ProviderError(
+      `Invalid model "${value}", expected provider:model such as gemini:gemini-2.5-pro`
+    );
+  }
+  const providerInfo = getProviderInfo(provider);
+  if (!providerInfo) {
+    throw new ProviderError(`Unrecognized provider "${provider}" in "${value}"`);
+  }
+  if (!providerInfo.available) {
+    throw new ProviderError(
+      `Provider ${provider} is not available. Please check your API key configuration.`
+    );
+  }
+  return { provider: provider as Provider, model };
+}
+
+/**
+ * Parses --models and --judge. The judge defaults to the first model of the list.
+ */
+export function parseConsensusModels(options?: CommandOptions): ConsensusModels | undefined {
+  if (!options?.models) {
+    return undefined;
+  }
+  // Checked before sessions fill in their provider and model
+  if (options.provider || options.model) {
+    throw new ProviderError(
+      '--models cannot be combined with --provider or --model, use --judge to choose the model that combines the answers'
+    );
+  }
+  const candidates = options.models
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean)
+    .map(parseModelSpec);
+  if (candidates.length < 2) {
+    throw new ProviderError(
+      '--models needs at least two models, e.g. --models gemini:gemini-2.5-pro,anthropic:claude-sonnet-4-20250514'
+    );
+  }
+  return { candidates, judge: options.judge ? parseModelSpec(options.judge) : candidates[0] };
+}
+
+/**
+ * Asks every candidate concurrently and shows each answer, then streams the judge's combined
+ * answer. Returns the combined answer. Candidates that fail are reported and left out, the run
+ * only fails when all of them do.
+ */
+export async function* runConsensus(
+  query: string,
+  candidates: ConsensusCandidate[],
+  judge: ModelSpec,
+  judgeOptions: Omit<ModelOptions, 'model'>
+): AsyncGenerator<string, string, unknown> {
+  yield `Asking ${candidates.map(formatModelSpec).join(', ')}...\n`;
+
+  // Each candidate gets its own provider instance so their token usage is tracked separately
+  const pending = candidates.map((candidate) =>
+    createProvider(candidate.provider)
+      .executePrompt(candidate.prompt, candidate.options)
+      .then(
+        (text) => ({ text }),
+        (error: unknown) => ({ error })
+      )
+  );
+
+  const answers: string[] = [];
+  for (const [index, result] of pending.entries()) {
+    const label = formatModelSpec(candidates[index]);
+    const answer = await result;
+    if ('error' in answer) {
+      const message = answer.error instanceof Error ? answer.error.message : String(answer.error);
+      yield `\n## ${label} failed\n\n${message}\n`;
+      continue;
+    }
+    answers.push(`### ${label}\n${answer.text.trim()}`);
+    yield `\n## ${label}\n\n${answer.text.trim()}\n`;
+  }
+
+  if (answers.length === 0) {
+    throw new ProviderError('All models of --models failed, see the errors above');
+  }
+
+  yield `\n## Combined answer (${formatModelSpec(judge)})\n\n`;
+  let combined = '';
+  const judgePrompt = renderPrompt('consensus', { query, answers: answers.join('\n\n') });
+  for await (const chunk of executePromptStreaming(createProvider(judge.provider), judgePrompt, {
+    ...judgeOptions,
+    model: judge.model,
+  })) {
+    combined += chunk;
+    yield chunk;
+  }
+  return combined;
+}
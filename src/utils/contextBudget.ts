@@ -0,0 +1,118 @@
+import { TokenCounter } from 'repomix';
+import type { Provider } from '../types';
+import { loadConfig } from '../config';
+import { formatContextWindow, getModelCapabilities } from '../providers/modelRegistry';
+import { once } from './once';
+
+// Part of the prompt shown as its own line of the report, its text must appear in the prompt
+export interface ContextSection {
+  label: string;
+  text: string | undefined;
+}
+
+export interface ContextBudget {
+  provider: Provider;
+  model: string;
+  encoding: string;
+  sections: { label: string; tokens: number }[];
+  promptTokens: number; // System prompt plus prompt
+  maxTokens: number; // Reserved for the answer
+  contextWindow?: number; // Undefined for models the registry doesn't know
+}
+
+const getEncoding = once(() => loadConfig().tokenCount?.encoding ?? 'o200k_base');
+const getTokenCounter = once(() => new TokenCounter(getEncoding()));
+
+/**
+ * Counts tokens with the tokenizer configured in `tokenCount.encoding`, the same one Repomix uses.
+ * Other model families tokenize differently, so counts for them are close but not exact.
+ */
+export function countTokens(text: string): number {
+  return text ? getTokenCounter().countTokens(text) : 0;
+}
+
+/**
+ * Counts the tokens of a prompt before it is sent, broken down by section. Whatever is not part of
+ * a section (instructions, the query, formatting) is reported as one line.
+ */
+export function getContextBudget(params: {
+  provider: Provider;
+  model: string;
+  maxTokens: number;
+  prompt: string;
+  systemPrompt?: string;
+  sections: ContextSection[];
+}): ContextBudget {
+  const { provider, model, maxTokens, prompt, systemPrompt, sections } = params;
+
+  let remainingPrompt = prompt;
+  const sectionTokens: ContextBudget['sections'] = [];
+  for (const section of sections) {
+    if (!section.text) {
+      continue;
+    }
+    // Counting sections on their own instead of the whole prompt again keeps large repositories fast
+    remainingPrompt = remainingPrompt.replace(section.text, () => '');
+    sectionTokens.push({ label: section.label, tokens: countTokens(section.text) });
+  }
+  if (systemPrompt) {
+    sectionTokens.push({ label: 'System prompt', tokens: countTokens(systemPrompt) });
+  }
+  sectionTokens.push({ label: 'Instructions and query', tokens: countTokens(remainingPrompt) });
+
+  return {
+    provider,
+    model,
+    encoding: getEncoding(),
+    sections: sectionTokens,
+    promptTokens: sectionTokens.reduce((sum, section) => sum + section.tokens, 0),
+    maxTokens,
+    contextWindow: getModelCapabilities(model)?.contextWindow,
+  };
+}
+
+export function exceedsContextWindow(budget: ContextBudget): boolean {
+  return (
+    budget.contextWindow !== undefined &&
+    budget.promptTokens + budget.maxTokens > budget.contextWindow
+  );
+}
+
+export function formatContextBudget(budget: ContextBudget): string {
+  const rows: [string, number][] = [
+    ...budget.sections.map((section): [string, number] => [section.label, section.tokens]),
+    ['Total prompt', budget.promptTokens],
+    ['Reserved for the answer', budget.maxTokens],
+  ];
+  const labelWidth = Math.max(...rows.map(([label]) => label.length));
+  const numberWidth = Math.max(...rows.map(([, tokens]) => tokens.toLocaleString().length));
+
+  let report = `Context budget for ${budget.provider}/${budget.model} (${budget.encoding} tokens):\n`;
+  for (const [label, tokens] of rows) {
+    report += `  ${label.padEnd(labelWidth)}  ${tokens.toLocaleString().padStart(numberWidth)}\n`;
+  }
+
+  if (budget.contextWindow === undefined) {
+    report += '  Context window of this model is unknown\n';
+    return report;
+  }
+  const used = budget.promptTokens + budget.maxTokens;
+  report += `  ${'Context window'.padEnd(labelWidth)}  ${formatContextWindow(budget.contextWindow).padStart(numberWidth)} (${Math.round((used / budget.contextWindow) * 100)}% used)\n`;
+  if (exceedsContextWindow(budget)) {
+    report +=
+      `Warning: the prompt and answer need ${used.toLocaleString()} tokens, more than the ${budget.contextWindow.toLocaleString()} token context window of ${budget.provider}/${budget.model}. ` +
+      'Reduce the context or choose a model with a larger context window (see `vibe-tools models`).\n';
+  }
+  return report;
+}
+
+/**
+ * Output of --dry-run: the budget report followed by the prompt exactly as it would be sent.
+ */
+export function formatDryRun(budget: ContextBudget, prompt: string, systemPrompt?: string): string {
+  let output = `${formatContextBudget(budget)}\n`;
+  if (systemPrompt) {
+    output += `--- System Prompt ---\n${systemPrompt}\n\n`;
+  }
+  return `${output}--- Prompt ---\n${prompt}\n--- End Prompt ---\n`;
+}
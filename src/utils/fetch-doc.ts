@@ -9,10 +9,15 @@ import { ensurePlaywright, ensurePlaywrightBrowsers } from '../commands/browser/
  * extracts the text content, and performs validation.
  * @param url The document URL.
  * @param debug Whether to enable debug logging (passed to OpenCommand).
+ * @param signal Aborting it closes the browser and stops the retries.
  * @returns A promise that resolves with the extracted text content of the page.
  * @throws If fetching fails after retries or if content validation fails.
  */
-export async function fetchDocContent(url: string, debug: boolean): Promise<string> {
+export async function fetchDocContent(
+  url: string,
+  debug: boolean,
+  signal?: AbortSignal
+): Promise<string> {
   // Ensure Playwright and browsers are available before using browser commands
   await ensurePlaywright();
   await ensurePlaywrightBrowsers();
@@ -25,6 +30,7 @@ export async function fetchDocContent(url: string, debug: boolean): Promise<stri
   const waitTimes = ['3s', '5s', '10s']; // Wait times for retries
 
   for (let i = 0; i < waitTimes.length; i++) {
+    signal?.throwIfAborted();
     const waitTime = waitTimes[i];
     console.log(`Attempt ${i + 1}/${waitTimes.length}: Fetching with ${waitTime} wait...`);
 
@@ -37,6 +43,7 @@ export async function fetchDocContent(url: string, debug: boolean): Promise<stri
       network: false,
       html: true,
       debug: debug,
+      signal,
     };
 
     try {
@@ -97,6 +104,7 @@ export async function fetchDocContent(url: string, debug: boolean): Promise<stri
         `Attempt ${i + 1} failed or yielded insufficient content (length: ${htmlContent.length}).`
       );
     } catch (error) {
+      signal?.throwIfAborted();
       console.error(`Error during document fetch attempt ${i + 1} with ${waitTime} wait:`, error);
       // Don't re-throw immediately, let the loop try the next wait time
     }
@@ -0,0 +1,190 @@
+import { execFile as execFileCallback } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import { existsSync, lstatSync, readdirSync, rmSync } from 'node:fs';
+import { mkdir } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { promisify } from 'node:util';
+import { FileError, NetworkError, ProviderError } from '../errors';
+import type { CommandOptions } from '../types';
+import { parseGithubUrl } from './githubRepo';
+
+const execFile = promisify(execFileCallback);
+
+export const CLONE_CACHE_DIR = join(homedir(), '.vibe-tools', 'cache', 'repos');
+
+// Large enough for the file list of big repositories
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+export interface GitSource {
+  url: string;
+  ref?: string; // Branch, tag or commit, the remote's default branch when undefined
+}
+
+export interface ClonedRepository {
+  directory: string;
+  commit: string;
+}
+
+export interface CloneCacheStats {
+  directory: string;
+  repositories: number;
+  sizeBytes: number;
+}
+
+/**
+ * Parses `<url or path>[@<ref>]`. The ref starts at the first @ in the repository's path, so the
+ * user of ssh URLs (git@host:group/repo) is not taken for a ref and refs may contain slashes.
+ * Local paths are made absolute.
+ */
+export function parseGitSource(source: string): GitSource {
+  const scheme = source.indexOf('://');
+  const scpLike = /^[\w.-]+@[\w.-]+:/.exec(source);
+  const pathStart =
+    scheme !== -1 ? source.indexOf('/', scheme + 3) : scpLike ? scpLike[0].length : 0;
+  const separator = pathStart === -1 ? -1 : source.indexOf('@', pathStart);
+  const url = separator === -1 ? source : source.slice(0, separator);
+  const ref = separator === -1 ? undefined : source.slice(separator + 1) || undefined;
+  const isLocal = scheme === -1 && !scpLike;
+  return { url: isLocal ? resolve(url) : url, ref };
+}
+
+/**
+ * The repository to clone for --from-git or --from-github, undefined when the command analyzes the
+ * working directory.
+ */
+export function getRemoteSource(options?: CommandOptions): GitSource | undefined {
+  if (options?.fromGit && options.fromGithub) {
+    throw new ProviderError('--from-git and --from-github cannot be combined, use one of them');
+  }
+  if (options?.fromGit) {
+    return parseGitSource(options.fromGit);
+  }
+  if (options?.fromGithub) {
+    return parseGithubSource(options.fromGithub);
+  }
+  return undefined;
+}
+
+/**
+ * Parses a GitHub repository given as owner/repo[@ref] or as a GitHub URL.
+ */
+export function parseGithubSource(value: string): GitSource {
+  const { username, reponame, branch } = parseGithubUrl(value);
+  return { url: `https://github.com/${username}/${reponame}.git`, ref: branch };
+}
+
+export function formatGitSource(source: GitSource): string {
+  return source.ref ? `${source.url}@${source.ref}` : source.url;
+}
+
+async function git(args: string[], cwd: string, signal?: AbortSignal): Promise<string> {
+  try {
+    const { stdout } = await execFile('git', args, {
+      cwd,
+      signal,
+      maxBuffer: GIT_MAX_BUFFER,
+      // Fail instead of waiting for a password that nobody will type
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+    });
+    return stdout.trim();
+  } catch (error) {
+    signal?.throwIfAborted();
+    if ((error as { code?: unknown }).code === 'ENOENT') {
+      throw new FileError('git was not found, it is needed to analyze remote repositories', error);
+    }
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new NetworkError(
+      `git ${args[0]} failed: ${stderr || (error instanceof Error ? error.message : String(error))}`,
+      error
+    );
+  }
+}
+
+// Sum of the sizes of the files of a commit, without checking them out
+async function getTreeSizeBytes(
+  directory: string,
+  commit: string,
+  signal?: AbortSignal
+): Promise<number> {
+  const tree = await git(['ls-tree', '-r', '-l', commit], directory, signal);
+  let size = 0;
+  for (const match of tree.matchAll(/^\S+ blob \S+\s+(\d+)\t/gm)) {
+    size += Number(match[1]);
+  }
+  return size;
+}
+
+/**
+ * Fetches the latest commit of `source.ref` into ~/.vibe-tools/cache/repos and checks it out.
+ * Only that commit is fetched (a shallow fetch), and later runs reuse the clone, so only what
+ * changed is downloaded again. Private repositories use the credentials configured for git.
+ */
+export async function cloneRepository(
+  source: GitSource,
+  maxRepoSizeMB: number,
+  signal?: AbortSignal
+): Promise<ClonedRepository> {
+  const key = createHash('sha256').update(source.url).digest('hex').slice(0, 16);
+  const directory = join(CLONE_CACHE_DIR, key);
+
+  if (!existsSync(join(directory, '.git'))) {
+    await mkdir(directory, { recursive: true });
+    await git(['init', '--quiet'], directory, signal);
+    await git(['remote', 'add', 'origin', source.url], directory, signal);
+  }
+  await git(
+    ['fetch', '--quiet', '--depth', '1', '--no-tags', 'origin', source.ref ?? 'HEAD'],
+    directory,
+    signal
+  );
+  const commit = await git(['rev-parse', 'FETCH_HEAD'], directory, signal);
+
+  const sizeMB = (await getTreeSizeBytes(directory, commit, signal)) / 1024 / 1024;
+  if (sizeMB > maxRepoSizeMB) {
+    throw new ProviderError(
+      `Repository ${formatGitSource(source)} is too large (${Math.round(sizeMB)}MB) to analyze.
+The current size limit is ${maxRepoSizeMB}MB. You can:
+1. Increase the limit by setting repo.maxRepoSizeMB (or doc.maxRepoSizeMB) in vibe-tools.config.json
+2. Analyze part of the repository with --subdir or --include`
+    );
+  }
+
+  await git(['checkout', '--quiet', '--force', commit], directory, signal);
+  // Files left over from an earlier ref would otherwise be packed too
+  await git(['clean', '--quiet', '-ffdx'], directory, signal);
+  return { directory, commit };
+}
+
+function getDirectorySize(directory: string): number {
+  let size = 0;
+  for (const entry of readdirSync(directory, { withFileTypes: true })) {
+    const path = join(directory, entry.name);
+    size += entry.isDirectory() ? getDirectorySize(path) : lstatSync(path).size;
+  }
+  return size;
+}
+
+export function getCloneCacheStats(): CloneCacheStats {
+  const stats: CloneCacheStats = { directory: CLONE_CACHE_DIR, repositories: 0, sizeBytes: 0 };
+  if (!existsSync(CLONE_CACHE_DIR)) {
+    return stats;
+  }
+  for (const entry of readdirSync(CLONE_CACHE_DIR)) {
+    stats.repositories++;
+    stats.sizeBytes += getDirectorySize(join(CLONE_CACHE_DIR, entry));
+  }
+  return stats;
+}
+
+/**
+ * Removes the clones of all remote repositories. Returns the number of repositories removed.
+ */
+export function clearCloneCache(): number {
+  if (!existsSync(CLONE_CACHE_DIR)) {
+    return 0;
+  }
+  const repositories = readdirSync(CLONE_CACHE_DIR);
+  rmSync(CLONE_CACHE_DIR, { recursive: true, force: true });
+  return repositories.length;
+}
@@ -0,0 +1,112 @@
+import { relative } from 'node:path';
+import { execAsync } from './execAsync';
+
+// Commits of --with-history when no count is given
+export const DEFAULT_HISTORY_COMMITS = 20;
+
+// With more files the history of the whole directory is used, so the command line stays short
+const MAX_HISTORY_PATHS = 200;
+
+// Large enough for the blame of big files
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+interface BlameCommit {
+  author: string;
+  date: string;
+  summary: string;
+}
+
+function quote(arg: string): string {
+  return `"${arg.replace(/(["\\$`])/g, '\\$1')}"`;
+}
+
+/**
+ * The last `count` commits touching `paths` (relative to `directory`), with their messages and the
+ * files they changed. Without paths, or with too many of them, the commits touching any file of
+ * the directory are listed.
+ */
+export async function getCommitHistory(
+  directory: string,
+  paths: string[],
+  count: number,
+  signal?: AbortSignal
+): Promise<string> {
+  const pathspecs = paths.length > 0 && paths.length <= MAX_HISTORY_PATHS ? paths : ['.'];
+  const { stdout } = await execAsync(
+    `git log -n ${count} --abbrev=8 --date=short --name-only --format="commit %h%nAuthor: %an%nDate: %ad%n%n%w(0,4,4)%B" -- ${pathspecs.map(quote).join(' ')}`,
+    { cwd: directory, signal, maxBuffer: GIT_MAX_BUFFER }
+  );
+  return stdout.trim();
+}
+
+/**
+ * Paths, relative to `directory`, of the files changed between `base` and HEAD. Used to keep the
+ * changed files in full when the rest of the repository is compressed.
+ */
+export async function getChangedFiles(
+  directory: string,
+  base: string,
+  signal?: AbortSignal
+): Promise<string[]> {
+  try {
+    const { stdout } = await execAsync(`git diff --name-only --relative ${base}...HEAD`, {
+      cwd: directory,
+      signal,
+      maxBuffer: GIT_MAX_BUFFER,
+    });
+    return stdout.split('\n').filter(Boolean);
+  } catch {
+    signal?.throwIfAborted();
+    // The diff itself reports why it failed
+    return [];
+  }
+}
+
+/**
+ * Who last changed each line of a file and in which commit, followed by the summaries of those
+ * commits. Lines keep their numbers in the file, so they match the line numbers of --cite.
+ */
+export async function getBlame(
+  directory: string,
+  path: string,
+  signal?: AbortSignal
+): Promise<string> {
+  const { stdout } = await execAsync(`git blame --porcelain -- ${quote(path)}`, {
+    cwd: directory,
+    signal,
+    maxBuffer: GIT_MAX_BUFFER,
+  });
+
+  // The porcelain format describes a commit at its first line only
+  const commits = new Map<string, BlameCommit>();
+  const lines: string[] = [];
+  let commit = '';
+  let lineNumber = '';
+  for (const line of stdout.split('\n')) {
+    const header = /^([0-9a-f]{40}) \d+ (\d+)/.exec(line);
+    if (header) {
+      commit = header[1].slice(0, 8);
+      lineNumber = header[2];
+      if (!commits.has(commit)) {
+        commits.set(commit, { author: '', date: '', summary: '' });
+      }
+    } else if (line.startsWith('\t')) {
+      lines.push(`${commit} ${lineNumber}: ${line.slice(1)}`);
+    } else {
+      const [key, ...value] = line.split(' ');
+      const entry = commits.get(commit);
+      if (entry && key === 'author') {
+        entry.author = value.join(' ');
+      } else if (entry && key === 'author-time') {
+        entry.date = new Date(Number(value[0]) * 1000).toISOString().slice(0, 10);
+      } else if (entry && key === 'summary') {
+        entry.summary = value.join(' ');
+      }
+    }
+  }
+
+  const summaries = [...commits].map(
+    ([hash, entry]) => `${hash} ${entry.date} ${entry.author}: ${entry.summary}`
+  );
+  return `File: ${relative(directory, path) || path}\n\n${lines.join('\n')}\n\nCommits:\n${summaries.join('\n')}`;
+}
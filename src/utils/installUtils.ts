@@ -4,6 +4,7 @@ import { homedir } from 'node:os';
 import { consola } from 'consola';
 import { colors } from 'consola/utils';
 import type { Provider, Config, CommandGenerator } from '../types';
+import { getCustomProvider, getCustomProviders } from '../providers/customProviders';
 
 // Create color bindings with consola colors
 export const VIBE_COLORS = {
@@ -52,6 +53,22 @@ export const VALID_PROVIDERS = [
 ];
 export const VALID_PROVIDERS_LOWERCASE = VALID_PROVIDERS.map((p) => p.toLowerCase());
 
+// Built-in providers followed by the custom providers declared in vibe-tools.config.json
+export function getValidProviders(): string[] {
+  return [...VALID_PROVIDERS, ...getCustomProviders().map((definition) => definition.name)];
+}
+
+// Environment variable holding a provider's API key, undefined for custom providers without one
+export function getProviderApiKeyEnv(provider: string): string | undefined {
+  const customProvider = getCustomProvider(provider);
+  if (customProvider) {
+    return customProvider.apiKeyEnv;
+  }
+  return provider.toLowerCase().startsWith('apizh')
+    ? 'APIZH_API_KEY'
+    : `${provider.toUpperCase()}_API_KEY`;
+}
+
 // Helper function to update or add vibe-tools section in IDE rules files
 export function updateRulesSection(filePath: string, rulesTemplate: string): void {
   // Check if file exists and read its content
@@ -203,9 +220,10 @@ export function collectRequiredProviders(config: {
 export function parseProviderModel(value: string): { provider: Provider; model: string } {
   const [provider, model] = value.split(':');
   // Normalize provider case to match expected format
-  const providerIndex = VALID_PROVIDERS_LOWERCASE.indexOf(provider.toLowerCase());
-  // Use the lowercase version from VALID_PROVIDERS_LOWERCASE
-  const normalizedProvider = VALID_PROVIDERS_LOWERCASE[providerIndex] as Provider;
+  const validProviders = getValidProviders().map((p) => p.toLowerCase());
+  const providerIndex = validProviders.indexOf(provider.toLowerCase());
+  // Use the lowercase version from the valid providers
+  const normalizedProvider = validProviders[providerIndex] as Provider;
   return { provider: normalizedProvider, model };
 }
 
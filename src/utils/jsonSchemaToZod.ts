@@ -0,0 +1,115 @@
+import { z } from 'zod';
+
+type JsonSchema = {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  nullable?: boolean;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+};
+
+function literalSchema(value: unknown): z.ZodTypeAny {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+    ? z.literal(value)
+    : value === null
+      ? z.null()
+      : z.unknown();
+}
+
+function unionOf(schemas: z.ZodTypeAny[]): z.ZodTypeAny {
+  if (schemas.length === 0) {
+    return z.never();
+  }
+  if (schemas.length === 1) {
+    return schemas[0];
+  }
+  return z.union(schemas as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+}
+
+function convertType(type: string, schema: JsonSchema): z.ZodTypeAny {
+  switch (type) {
+    case 'string': {
+      let result = z.string();
+      if (schema.minLength !== undefined) result = result.min(schema.minLength);
+      if (schema.maxLength !== undefined) result = result.max(schema.maxLength);
+      return result;
+    }
+    case 'number':
+    case 'integer': {
+      let result = type === 'integer' ? z.number().int() : z.number();
+      if (schema.minimum !== undefined) result = result.min(schema.minimum);
+      if (schema.maximum !== undefined) result = result.max(schema.maximum);
+      return result;
+    }
+    case 'boolean':
+      return z.boolean();
+    case 'null':
+      return z.null();
+    case 'array': {
+      let result = z.array(schema.items ? jsonSchemaToZod(schema.items) : z.unknown());
+      if (schema.minItems !== undefined) result = result.min(schema.minItems);
+      if (schema.maxItems !== undefined) result = result.max(schema.maxItems);
+      return result;
+    }
+    case 'object': {
+      const required = new Set(schema.required ?? []);
+      const shape: Record<string, z.ZodTypeAny> = {};
+      for (const [key, property] of Object.entries(schema.properties ?? {})) {
+        const propertySchema = jsonSchemaToZod(property);
+        shape[key] = required.has(key) ? propertySchema : propertySchema.optional();
+      }
+      const object = z.object(shape);
+      if (schema.additionalProperties === false) {
+        return object.strict();
+      }
+      if (typeof schema.additionalProperties === 'object') {
+        return object.catchall(jsonSchemaToZod(schema.additionalProperties));
+      }
+      return object.passthrough();
+    }
+    default:
+      return z.unknown();
+  }
+}
+
+/**
+ * Converts the commonly used subset of JSON Schema (types, enum/const, properties/required,
+ * items, anyOf/oneOf and basic length and range limits) to a zod schema. Unsupported keywords are
+ * ignored, so the resulting schema may accept more than the original.
+ */
+export function jsonSchemaToZod(schema: JsonSchema): z.ZodTypeAny {
+  let result: z.ZodTypeAny;
+
+  if (schema.const !== undefined) {
+    result = literalSchema(schema.const);
+  } else if (schema.enum) {
+    const values = schema.enum;
+    result =
+      values.length > 0 && values.every((value) => typeof value === 'string')
+        ? z.enum(values as [string, ...string[]])
+        : unionOf(values.map(literalSchema));
+  } else if (schema.anyOf || schema.oneOf) {
+    result = unionOf((schema.anyOf ?? schema.oneOf ?? []).map(jsonSchemaToZod));
+  } else if (Array.isArray(schema.type)) {
+    result = unionOf(schema.type.map((type) => convertType(type, schema)));
+  } else if (schema.type) {
+    result = convertType(schema.type, schema);
+  } else if (schema.properties) {
+    result = convertType('object', schema);
+  } else {
+    result = z.unknown();
+  }
+
+  return schema.nullable ? result.nullable() : result;
+}
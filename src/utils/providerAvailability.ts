@@ -1,4 +1,9 @@
+import { spawnSync } from 'node:child_process';
 import type { Provider } from '../types';
+import { getCassetteProviders } from '../providers/cassette';
+import { getDefaultModel } from '../providers/modelRegistry';
+import { getCustomProviders, isCustomProviderAvailable } from '../providers/customProviders';
+import { ProviderError } from '../errors';
 
 interface ProviderInfo {
   provider: Provider;
@@ -6,26 +11,35 @@ interface ProviderInfo {
   defaultModel?: string;
 }
 
-// Default models for each provider when none specified in config
-const DEFAULT_MODELS: Record<Provider, string> = {
-  perplexity: 'sonar-pro',
-  gemini: 'gemini-2.5-pro',
-  openai: 'gpt-4.1', // largest context window (1M tokens) so best chance of working
-  anthropic: 'claude-sonnet-4-20250514',
-  openrouter: 'google/gemini-2.5-pro', // largest context window (1M tokens) so best chance of working
-  modelbox: 'google/gemini-2.5-pro', // largest context window (1M tokens) so best chance of working
-  xai: 'grok-3-latest',
-  apizh: 'gpt-4o-mini', // Default model for Chinese API relay service
-  'apizh-coding': 'o3', // 编程和代码生成 - 最强编程模型
-  'apizh-chinese': 'qwen3-235b-a22b', // 中文内容处理
-  'apizh-analysis': 'claude-sonnet-4-20250514', // 数据分析和研究
-  'apizh-creative': 'claude-opus-4-20250514', // 创意写作
-  'apizh-math': 'o1', // 数学和科学推理
-  'apizh-web': 'gemini-2.5-pro-exp-03-25', // 网络搜索
-  'apizh-reasoning': 'o1-mini', // 逻辑推理
-  'apizh-cost': 'gpt-4o-mini', // 成本效益优化
-  'apizh-nix': 'gpt-4.1-2025-04-14', // Nix包管理
-};
+// Ollama runs locally without an API key, so it is available when its daemon answers.
+// Probed the first time its availability is read and cached for the rest of the command.
+let ollamaAvailable: boolean | undefined;
+
+export function getOllamaHost(): string {
+  const host = process.env.OLLAMA_HOST || 'http://127.0.0.1:11434';
+  return (host.includes('://') ? host : `http://${host}`).replace(/\/+$/, '');
+}
+
+/**
+ * Checks whether an Ollama daemon is reachable. Provider lookups are synchronous, so the
+ * request runs in a short-lived child process the first time and the result is cached.
+ */
+export function isOllamaRunning(timeoutMs: number = 1000): boolean {
+  if (ollamaAvailable === undefined) {
+    const probe = spawnSync(
+      process.execPath,
+      [
+        '-e',
+        `fetch(process.argv[1] + '/api/tags', { signal: AbortSignal.timeout(${timeoutMs}) })
+          .then((response) => process.exit(response.ok ? 0 : 1), () => process.exit(1));`,
+        getOllamaHost(),
+      ],
+      { stdio: 'ignore', timeout: timeoutMs + 1000 }
+    );
+    ollamaAvailable = probe.status === 0;
+  }
+  return ollamaAvailable;
+}
 
 // Task-specific model recommendations for APIZH provider
 export const APIZH_TASK_MODELS: Record<string, string> = {
@@ -90,6 +104,7 @@ export const PROVIDER_PREFERENCE: Record<string, Provider[]> = {
     'anthropic',
     'xai',
     'apizh',
+    'ollama',
   ],
   plan_file: [
     'apizh-cost',
@@ -101,6 +116,7 @@ export const PROVIDER_PREFERENCE: Record<string, Provider[]> = {
     'anthropic',
     'xai',
     'apizh',
+    'ollama',
   ],
   plan_thinking: [
     'apizh-reasoning',
@@ -112,6 +128,7 @@ export const PROVIDER_PREFERENCE: Record<string, Provider[]> = {
     'perplexity',
     'xai',
     'apizh',
+    'ollama',
   ],
   doc: [
     'apizh-analysis',
@@ -123,6 +140,7 @@ export const PROVIDER_PREFERENCE: Record<string, Provider[]> = {
     'anthropic',
     'xai',
     'apizh',
+    'ollama',
   ],
   ask: [
     'apizh-cost',
@@ -133,6 +151,7 @@ export const PROVIDER_PREFERENCE: Record<string, Provider[]> = {
     'anthropic',
     'perplexity',
     'apizh',
+    'ollama',
   ],
   browser: [
     'apizh-analysis',
@@ -146,101 +165,127 @@ export const PROVIDER_PREFERENCE: Record<string, Provider[]> = {
   ],
 };
 
-export function getDefaultModel(provider: Provider): string {
-  return DEFAULT_MODELS[provider];
-}
-
 export function getAllProviders(): ProviderInfo[] {
   const isApizhAvailable = !!process.env.APIZH_API_KEY;
+  // When replaying a cassette only the recorded providers are available, regardless of API keys
+  const cassetteProviders = getCassetteProviders();
 
-  return [
+  const providers: ProviderInfo[] = [
     {
       provider: 'perplexity',
       available: !!process.env.PERPLEXITY_API_KEY,
-      defaultModel: DEFAULT_MODELS.perplexity,
+      defaultModel: getDefaultModel('perplexity'),
     },
     {
       provider: 'gemini',
       available: !!process.env.GEMINI_API_KEY,
-      defaultModel: DEFAULT_MODELS.gemini,
+      defaultModel: getDefaultModel('gemini'),
     },
     {
       provider: 'openai',
       available: !!process.env.OPENAI_API_KEY,
-      defaultModel: DEFAULT_MODELS.openai,
+      defaultModel: getDefaultModel('openai'),
     },
     {
       provider: 'anthropic',
       available: !!process.env.ANTHROPIC_API_KEY,
-      defaultModel: DEFAULT_MODELS.anthropic,
+      defaultModel: getDefaultModel('anthropic'),
     },
     {
       provider: 'openrouter',
       available: !!process.env.OPENROUTER_API_KEY,
-      defaultModel: DEFAULT_MODELS.openrouter,
+      defaultModel: getDefaultModel('openrouter'),
     },
     {
       provider: 'modelbox',
       available: !!process.env.MODELBOX_API_KEY,
-      defaultModel: DEFAULT_MODELS.modelbox,
+      defaultModel: getDefaultModel('modelbox'),
     },
     {
       provider: 'xai',
       available: !!process.env.XAI_API_KEY,
-      defaultModel: DEFAULT_MODELS.xai,
+      defaultModel: getDefaultModel('xai'),
     },
     {
       provider: 'apizh',
       available: isApizhAvailable,
-      defaultModel: DEFAULT_MODELS.apizh,
+      defaultModel: getDefaultModel('apizh'),
     },
     // APIZH specialized variants
     {
       provider: 'apizh-coding',
       available: isApizhAvailable,
-      defaultModel: DEFAULT_MODELS['apizh-coding'],
+      defaultModel: getDefaultModel('apizh-coding'),
     },
     {
       provider: 'apizh-chinese',
       available: isApizhAvailable,
-      defaultModel: DEFAULT_MODELS['apizh-chinese'],
+      defaultModel: getDefaultModel('apizh-chinese'),
     },
     {
       provider: 'apizh-analysis',
       available: isApizhAvailable,
-      defaultModel: DEFAULT_MODELS['apizh-analysis'],
+      defaultModel: getDefaultModel('apizh-analysis'),
     },
     {
       provider: 'apizh-creative',
       available: isApizhAvailable,
-      defaultModel: DEFAULT_MODELS['apizh-creative'],
+      defaultModel: getDefaultModel('apizh-creative'),
     },
     {
       provider: 'apizh-math',
       available: isApizhAvailable,
-      defaultModel: DEFAULT_MODELS['apizh-math'],
+      defaultModel: getDefaultModel('apizh-math'),
     },
     {
       provider: 'apizh-web',
       available: isApizhAvailable,
-      defaultModel: DEFAULT_MODELS['apizh-web'],
+      defaultModel: getDefaultModel('apizh-web'),
     },
     {
       provider: 'apizh-reasoning',
       available: isApizhAvailable,
-      defaultModel: DEFAULT_MODELS['apizh-reasoning'],
+      defaultModel: getDefaultModel('apizh-reasoning'),
     },
     {
       provider: 'apizh-cost',
       available: isApizhAvailable,
-      defaultModel: DEFAULT_MODELS['apizh-cost'],
+      defaultModel: getDefaultModel('apizh-cost'),
     },
     {
       provider: 'apizh-nix',
       available: isApizhAvailable,
-      defaultModel: DEFAULT_MODELS['apizh-nix'],
+      defaultModel: getDefaultModel('apizh-nix'),
+    },
+    {
+      provider: 'ollama',
+      // Checked only when read, so commands that resolve another provider never probe the daemon.
+      // Replaying a cassette decides availability below, so the daemon is not probed then either.
+      get available() {
+        return !cassetteProviders && isOllamaRunning();
+      },
+      defaultModel: getDefaultModel('ollama'),
     },
   ];
+
+  for (const definition of getCustomProviders()) {
+    if (providers.some((info) => info.provider === definition.name)) {
+      throw new ProviderError(
+        `Custom provider "${definition.name}" in vibe-tools.config.json has the name of a built-in provider, please rename it`
+      );
+    }
+    providers.push({
+      provider: definition.name as Provider,
+      available: isCustomProviderAvailable(definition),
+      defaultModel: getDefaultModel(definition.name as Provider),
+    });
+  }
+
+  if (cassetteProviders) {
+    return providers.map((info) => ({ ...info, available: cassetteProviders.has(info.provider) }));
+  }
+
+  return providers;
 }
 
 export function getProviderInfo(provider: string): ProviderInfo | undefined {
@@ -0,0 +1,184 @@
+import { existsSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type { Provider } from '../types';
+import { SessionError } from '../errors';
+
+export const SESSIONS_DIR = join(homedir(), '.vibe-tools', 'sessions');
+
+const SESSION_NAME_PATTERN = /^[\w.-]+$/;
+
+export interface SessionMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+}
+
+export interface Session {
+  name: string;
+  command: string; // Command that started the session
+  createdAt: string;
+  updatedAt: string;
+  provider?: Provider;
+  model?: string;
+  messages: SessionMessage[];
+  // Packed repository reused by repo follow-ups instead of packing again
+  repoContext?: {
+    source: string; // GitHub repository or absolute directory that was packed
+    tokenCount: number;
+    packedAt: string;
+  };
+}
+
+function getSessionPath(name: string): string {
+  return join(SESSIONS_DIR, `${name}.json`);
+}
+
+function getContextPath(name: string): string {
+  return join(SESSIONS_DIR, `${name}.context.txt`);
+}
+
+function validateSessionName(name: string): void {
+  if (!SESSION_NAME_PATTERN.test(name)) {
+    throw new SessionError(
+      `Invalid session name "${name}". Use only letters, numbers, dots, dashes and underscores.`
+    );
+  }
+}
+
+function saveSession(session: Session): void {
+  mkdirSync(SESSIONS_DIR, { recursive: true });
+  writeFileSync(getSessionPath(session.name), JSON.stringify(session, null, 2));
+}
+
+export function loadSession(name: string): Session | undefined {
+  validateSessionName(name);
+  const path = getSessionPath(name);
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as Session;
+  } catch (error) {
+    throw new SessionError(`Failed to read session "${name}"`, error);
+  }
+}
+
+/**
+ * Sessions sorted by most recent activity first.
+ */
+export function listSessions(): Session[] {
+  if (!existsSync(SESSIONS_DIR)) {
+    return [];
+  }
+  return readdirSync(SESSIONS_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .flatMap((file) => {
+      try {
+        return [JSON.parse(readFileSync(join(SESSIONS_DIR, file), 'utf-8')) as Session];
+      } catch {
+        return [];
+      }
+    })
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function deleteSession(name: string): boolean {
+  validateSessionName(name);
+  const path = getSessionPath(name);
+  if (!existsSync(path)) {
+    return false;
+  }
+  rmSync(path, { force: true });
+  rmSync(getContextPath(name), { force: true });
+  return true;
+}
+
+/**
+ * Resolves the session for a command from `--session <name>` (created if it doesn't exist yet)
+ * or `--continue` (the most recently used session of the same command). Returns undefined when
+ * neither is given.
+ */
+export function openSession(
+  command: string,
+  options: { session?: string; continue?: boolean } | undefined
+): Session | undefined {
+  if (options?.session) {
+    const existing = loadSession(options.session);
+    if (existing) {
+      if (existing.command !== command) {
+        throw new SessionError(
+          `Session "${existing.name}" belongs to the ${existing.command} command and cannot be continued with ${command}. Use another session name.`
+        );
+      }
+      return existing;
+    }
+    const now = new Date().toISOString();
+    return { name: options.session, command, createdAt: now, updatedAt: now, messages: [] };
+  }
+
+  if (options?.continue) {
+    const latest = listSessions().find((session) => session.command === command);
+    if (!latest) {
+      throw new SessionError(
+        `There is no ${command} session to continue. Start one with --session <name>.`
+      );
+    }
+    return latest;
+  }
+
+  return undefined;
+}
+
+/**
+ * Formats the previous questions and answers of a session for inclusion in a prompt. Returns an
+ * empty string for a new session.
+ */
+export function formatSessionHistory(session: Session | undefined): string {
+  if (!session || session.messages.length === 0) {
+    return '';
+  }
+  return session.messages
+    .map((message) => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+    .join('\n\n');
+}
+
+export function recordSessionExchange(
+  session: Session,
+  question: string,
+  answer: string,
+  provider: Provider,
+  model: string
+): void {
+  const timestamp = new Date().toISOString();
+  session.messages.push(
+    { role: 'user', content: question, timestamp },
+    { role: 'assistant', content: answer.trim(), timestamp }
+  );
+  session.provider = provider;
+  session.model = model;
+  session.updatedAt = timestamp;
+  saveSession(session);
+}
+
+/**
+ * Returns the packed repository stored with the session if it was packed from the same source.
+ */
+export function loadSessionContext(session: Session, source: string): string | undefined {
+  const contextPath = getContextPath(session.name);
+  if (session.repoContext?.source !== source || !existsSync(contextPath)) {
+    return undefined;
+  }
+  return readFileSync(contextPath, 'utf-8');
+}
+
+export function saveSessionContext(
+  session: Session,
+  source: string,
+  context: string,
+  tokenCount: number
+): void {
+  mkdirSync(SESSIONS_DIR, { recursive: true });
+  writeFileSync(getContextPath(session.name), context);
+  session.repoContext = { source, tokenCount, packedAt: new Date().toISOString() };
+}
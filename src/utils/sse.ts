@@ -0,0 +1,60 @@
+/**
+ * Minimal server-sent events reader for providers that stream over plain fetch.
+ *
+ * Yields the `data` payload of every event in the response body. Multi-line data fields are
+ * joined with newlines as per the SSE spec, comments and other fields are ignored.
+ *
+ * Usage:
+ * ```typescript
+ * for await (const data of readServerSentEvents(response.body)) {
+ *   if (data === '[DONE]') break;
+ *   const chunk = JSON.parse(data);
+ * }
+ * ```
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<string, void, unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.match(/\r?\n\r?\n/);
+      while (boundary?.index !== undefined) {
+        const rawEvent = buffer.slice(0, boundary.index);
+        buffer = buffer.slice(boundary.index + boundary[0].length);
+        const data = parseEventData(rawEvent);
+        if (data !== undefined) {
+          yield data;
+        }
+        boundary = buffer.match(/\r?\n\r?\n/);
+      }
+    }
+
+    // Flush any trailing event that was not terminated by a blank line
+    buffer += decoder.decode();
+    const data = parseEventData(buffer);
+    if (data !== undefined) {
+      yield data;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseEventData(rawEvent: string): string | undefined {
+  const dataLines = rawEvent
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith('data:'))
+    .map((line) => line.slice('data:'.length).replace(/^ /, ''));
+
+  return dataLines.length > 0 ? dataLines.join('\n') : undefined;
+}
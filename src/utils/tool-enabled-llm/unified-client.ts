@@ -12,6 +12,8 @@ import {
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { CallToolResultSchema } from '@modelcontextprotocol/sdk/types.js';
 import { ProviderError } from '../../errors.js';
+import { estimatePromptTokens, scheduleProviderCall } from '../../providers/rateLimitScheduler.js';
+import { onAbort } from '../abort.js';
 
 // Define core interfaces
 export interface InternalMessage {
@@ -63,6 +65,7 @@ export interface UnifiedLLMClientOptions {
   logger: (message: string) => void;
   mcpMode: boolean; // Flag to enable MCP-specific behaviors if needed
   mcpConfig?: StdioServerParameters;
+  signal?: AbortSignal; // Cancels requests and stops the MCP server when aborted
 }
 
 function transformToAnthropicMessages(messages: InternalMessage[]) {
@@ -210,23 +213,42 @@ export class UnifiedLLMClient {
     toolDefinitions.forEach((tool) => this.registerTool(tool));
   }
 
+  // Token estimate for the rate limit scheduler, the full conversation is sent with every call
+  private estimateTokens(messages: InternalMessage[], systemPrompt: string): number {
+    return (
+      estimatePromptTokens(JSON.stringify(messages), systemPrompt) + (this.config.maxTokens ?? 0)
+    );
+  }
+
   async processCompletionNoTools(
     messages: InternalMessage[],
     systemPrompt: string
   ): Promise<string> {
-    const result =
-      (await this.openrouterClient?.chat.completions.create({
-        messages: transformToOpenRouterMessages(messages, systemPrompt),
-        model: this.config.model,
-        max_tokens: this.config.maxTokens,
-        tools: [], // deliberately no tools
-      })) ??
-      (await this.anthropicClient?.messages.create({
-        messages: transformToAnthropicMessages(messages),
-        model: this.config.model,
-        max_tokens: this.config.maxTokens,
-        tools: [], // deliberately no tools
-      }));
+    const requestOptions = { signal: this.config.signal };
+    const result = await scheduleProviderCall(
+      this.config.provider,
+      this.estimateTokens(messages, systemPrompt),
+      async () =>
+        (await this.openrouterClient?.chat.completions.create(
+          {
+            messages: transformToOpenRouterMessages(messages, systemPrompt),
+            model: this.config.model,
+            max_tokens: this.config.maxTokens,
+            tools: [], // deliberately no tools
+          },
+          requestOptions
+        )) ??
+        (await this.anthropicClient?.messages.create(
+          {
+            messages: transformToAnthropicMessages(messages),
+            model: this.config.model,
+            max_tokens: this.config.maxTokens,
+            tools: [], // deliberately no tools
+          },
+          requestOptions
+        )),
+      this.config.signal
+    );
 
     if (!result) {
       throw new Error(
@@ -294,6 +316,8 @@ export class UnifiedLLMClient {
           });
         }
 
+        this.config.signal?.throwIfAborted();
+
         // Check if we've reached the maximum number of API calls
         if (maxApiCalls !== undefined && apiCallCount >= maxApiCalls) {
           const errorMessage = `Maximum number of API calls (${maxApiCalls}) reached.`;
@@ -318,33 +342,55 @@ export class UnifiedLLMClient {
           );
         }
 
+        // Only starting the request is scheduled, the slot is not held while tools run
+        const estimatedTokens = this.estimateTokens(this.messages, systemPrompt);
         if (provider === 'openrouter' && this.openrouterClient) {
-          const response = await this.openrouterClient.chat.completions.create({
-            messages: transformToOpenRouterMessages(this.messages, systemPrompt),
-            model: model,
-            stream: true,
-            tools: this.tools as ChatCompletionTool[],
-            max_tokens: this.config.maxTokens,
-          });
+          const openrouterClient = this.openrouterClient;
+          const response = await scheduleProviderCall(
+            provider,
+            estimatedTokens,
+            () =>
+              openrouterClient.chat.completions.create(
+                {
+                  messages: transformToOpenRouterMessages(this.messages, systemPrompt),
+                  model: model,
+                  stream: true,
+                  tools: this.tools as ChatCompletionTool[],
+                  max_tokens: this.config.maxTokens,
+                },
+                { signal: this.config.signal }
+              ),
+            this.config.signal
+          );
           stopReason = await this.processOpenRouterStream(response);
         } else if (this.anthropicClient) {
           const anthropicMessages = transformToAnthropicMessages(this.messages);
 
-          const stream = await this.anthropicClient.messages.create({
-            messages: anthropicMessages,
-            model,
-            max_tokens: this.config.maxTokens ?? 8092,
-            tools: this.tools as Tool[],
-            stream: true,
-            system: [
-              {
-                type: 'text',
-                text: systemPrompt,
-                // @ts-ignore
-                cache_control: { type: 'ephemeral' },
-              },
-            ],
-          });
+          const anthropicClient = this.anthropicClient;
+          const stream = await scheduleProviderCall(
+            provider,
+            estimatedTokens,
+            () =>
+              anthropicClient.messages.create(
+                {
+                  messages: anthropicMessages,
+                  model,
+                  max_tokens: this.config.maxTokens ?? 8092,
+                  tools: this.tools as Tool[],
+                  stream: true,
+                  system: [
+                    {
+                      type: 'text',
+                      text: systemPrompt,
+                      // @ts-ignore
+                      cache_control: { type: 'ephemeral' },
+                    },
+                  ],
+                },
+                { signal: this.config.signal }
+              ),
+            this.config.signal
+          );
           stopReason = await this.processAnthropicStream(stream);
         } else {
           throw new Error(
@@ -666,6 +712,8 @@ export class UnifiedLLMClient {
 
     this.mcpClient = new Client({ name: 'cli-client', version: '1.0.0' }, { capabilities: {} });
     this.transport = new StdioClientTransport(this.config.mcpConfig);
+    // Closing the client stops the spawned server process
+    onAbort(this.config.signal, () => this.stopMCP());
   }
 
   /**
@@ -748,7 +796,8 @@ export class UnifiedLLMClient {
                       : undefined,
                   },
                 },
-                CallToolResultSchema
+                CallToolResultSchema,
+                { signal: this.config.signal }
               );
 
               return {
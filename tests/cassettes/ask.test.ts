@@ -0,0 +1,41 @@
+import { resolve } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AskCommand } from '../../src/commands/ask';
+import type { CommandOptions } from '../../src/types';
+
+const CASSETTE_PATH = resolve(__dirname, 'ask.cassette.json');
+
+const options: CommandOptions = {
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  maxTokens: 4000,
+  debug: false,
+};
+
+async function runAsk(query: string): Promise<string> {
+  let output = '';
+  for await (const chunk of new AskCommand().execute(query, options)) {
+    output += chunk;
+  }
+  return output;
+}
+
+describe('ask with a replayed cassette', () => {
+  beforeEach(() => {
+    process.env.VIBE_TOOLS_REPLAY = CASSETTE_PATH;
+  });
+
+  afterEach(() => {
+    delete process.env.VIBE_TOOLS_REPLAY;
+  });
+
+  it('answers from the recording without an API key', async () => {
+    expect(await runAsk('What is the capital of France?')).toBe('The capital of France is Paris.');
+  });
+
+  it('fails for a question that was not recorded', async () => {
+    await expect(runAsk('What is the capital of Italy?')).rejects.toThrow(
+      'No recorded response for openai/gpt-4o-mini'
+    );
+  });
+});
@@ -0,0 +1,55 @@
+import { resolve } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ReplayProvider, getCassetteProviders } from '../../src/providers/cassette';
+import type { ModelOptions } from '../../src/providers/base';
+
+const CASSETTE_PATH = resolve(__dirname, 'ask.cassette.json');
+
+// The options vibe-tools ask sends with --provider openai --model gpt-4o-mini --max-tokens 4000
+const options: ModelOptions = {
+  model: 'gpt-4o-mini',
+  maxTokens: 4000,
+  systemPrompt:
+    'You are a helpful assistant. Answer the following question directly and concisely.',
+  reasoningEffort: 'medium',
+  debug: false,
+};
+
+describe('ReplayProvider', () => {
+  beforeEach(() => {
+    process.env.VIBE_TOOLS_REPLAY = CASSETTE_PATH;
+  });
+
+  afterEach(() => {
+    delete process.env.VIBE_TOOLS_REPLAY;
+  });
+
+  it('replays the recorded response and token usage', async () => {
+    const provider = new ReplayProvider('openai', CASSETTE_PATH);
+
+    const response = await provider.executePrompt('What is the capital of France?', options);
+
+    expect(response).toBe('The capital of France is Paris.');
+    expect(provider.tokenUsage).toEqual({ promptTokens: 24, completionTokens: 8, totalTokens: 32 });
+  });
+
+  it('only makes the recorded providers available', () => {
+    expect(getCassetteProviders()).toEqual(new Set(['openai']));
+  });
+
+  it('fails when the prompt was not recorded', async () => {
+    const provider = new ReplayProvider('openai', CASSETTE_PATH);
+
+    await expect(provider.executePrompt('What is the capital of Italy?', options)).rejects.toThrow(
+      'No recorded response for openai/gpt-4o-mini'
+    );
+  });
+
+  it('fails when the options differ from the recording', async () => {
+    const provider = new ReplayProvider('openai', CASSETTE_PATH);
+
+    await expect(
+      provider.executePrompt('What is the capital of France?', { ...options, maxTokens: 8000 })
+    ).rejects.toThrow('re-record it with VIBE_TOOLS_RECORD');
+  });
+});